@@ -0,0 +1,43 @@
+describe("config rate limits", () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  function loadConfig(overrides: Record<string, string>) {
+    process.env = { ...env, ...overrides };
+    return jest.isolateModules(() => require("./config"));
+  }
+
+  it("accepts positive rate limits", () => {
+    expect(() =>
+      loadConfig({ WEBHOOK_RATE_PER_MINUTE: "10", WEBHOOK_RATE_BURST: "2" })
+    ).not.toThrow();
+  });
+
+  it.each([
+    ["WEBHOOK_RATE_PER_MINUTE", "0", "perMinute"],
+    ["WEBHOOK_RATE_PER_MINUTE", "-5", "perMinute"],
+    ["WEBHOOK_RATE_BURST", "lots", "burst"],
+  ])("rejects %s=%p", (name, value, field) => {
+    expect(() => loadConfig({ [name]: value })).toThrow(
+      `rate limit ${field} must be a positive number`
+    );
+  });
+
+  it("rejects invalid channel rate limits", () => {
+    const channels = [
+      {
+        tags: [],
+        webhookUrl: "https://example.com",
+        channelName: "Busy",
+        rateLimit: { perMinute: 10, burst: null },
+      },
+    ];
+
+    expect(() =>
+      loadConfig({ TEAMS_CHANNELS: JSON.stringify(channels) })
+    ).toThrow('Channel "Busy": rate limit burst must be a positive number');
+  });
+});
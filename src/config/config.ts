@@ -2,10 +2,142 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
+/**
+ * Envelope a webhook expects: Office 365 connector ("legacy"), Power
+ * Automate Workflows trigger ("workflows"), or the bare Adaptive Card
+ */
+export type WebhookPayloadFormat = "legacy" | "workflows" | "adaptive-card";
+
+/**
+ * Chat tool a channel's webhook belongs to
+ */
+export type NotifierType = "teams" | "slack" | "webhook";
+
+/**
+ * JSON body of a generic webhook, with `{{placeholders}}` in its strings
+ */
+export type WebhookTemplate =
+  | string
+  | number
+  | boolean
+  | null
+  | WebhookTemplate[]
+  | { [key: string]: WebhookTemplate };
+
+export interface EscalationSettings {
+  // Remind once a question has been unanswered for this many hours
+  afterHours: number;
+  // Hours between reminders (defaults to afterHours)
+  repeatEveryHours?: number;
+  maxReminders: number;
+  // Channel that is notified once all reminders went unanswered
+  escalateTo?: Pick<
+    ChannelMapping,
+    | "webhookUrl"
+    | "channelName"
+    | "payloadFormat"
+    | "notifier"
+    | "template"
+    | "templateSet"
+    | "templates"
+    | "locale"
+    | "timezone"
+  >;
+}
+
+export interface DigestSettings {
+  mode: "immediate" | "daily" | "weekly";
+  // Local time of day the digest is sent, as HH:MM
+  time?: string;
+  // Day of week for weekly digests (0 = Sunday)
+  dayOfWeek?: number;
+}
+
+export interface DeliveryWindow {
+  // Local times (HH:MM) between which messages are delivered
+  start: string;
+  end: string;
+  // Days of week the window applies to (0 = Sunday); every day when omitted
+  days?: number[];
+}
+
+export interface RateLimit {
+  // Sustained requests per minute
+  perMinute: number;
+  // Requests that may be sent back to back before the rate applies
+  burst: number;
+}
+
+/**
+ * Length limits the Apache Answers site enforces on new questions, counted
+ * in characters
+ */
+export interface QuestionRules {
+  titleMinLength: number;
+  titleMaxLength: number;
+  bodyMinLength: number;
+}
+
+/**
+ * Conditions a post must all meet to be routed to a channel. Tag
+ * conditions also match posts tagged with a synonym of the tag.
+ */
+export interface RoutingRule {
+  // Shown in logs when the rule matches
+  name?: string;
+  anyTags?: string[];
+  allTags?: string[];
+  excludeTags?: string[];
+  // Apache Answers usernames
+  authors?: string[];
+  excludeAuthors?: string[];
+  // Case-insensitive regular expressions
+  titlePattern?: string;
+  bodyPattern?: string;
+  // Minimum reputation of the author
+  minReputation?: number;
+}
+
 export interface ChannelMapping {
   tags: string[];
+  // The channel receives a post when any rule matches
+  rules?: RoutingRule[];
   webhookUrl: string;
+  // Defaults to "teams"
+  notifier?: NotifierType;
+  // Teams only
+  payloadFormat?: WebhookPayloadFormat;
+  // Body sent by the "webhook" notifier
+  template?: WebhookTemplate;
   channelName: string;
+  escalation?: EscalationSettings;
+  digest?: DigestSettings;
+  // IANA time zone for dates, digests and delivery windows (server time zone by default)
+  timezone?: string;
+  // BCP 47 locale for dates (TEAMS_LOCALE by default)
+  locale?: string;
+  // Named set of message templates from TEAMS_TEMPLATES
+  templateSet?: string;
+  // Message templates overriding those of the template set, by name
+  templates?: Record<string, string>;
+  // Messages outside this window are held and released when it opens
+  deliveryWindow?: DeliveryWindow;
+  // Posts with any of these tags bypass the delivery window
+  urgentTags?: string[];
+  // Overrides the default webhook rate limit for this channel
+  rateLimit?: RateLimit;
+}
+
+/**
+ * Incoming callback flow, each of which can have its own credentials
+ */
+export type CallbackFlow = "emoji" | "power-automate";
+
+export interface CallbackCredentials {
+  // Sent in the X-Api-Key header or the `token` query parameter
+  apiKey?: string;
+  // Secret for the X-Signature HMAC of the timestamp and JSON body
+  hmacSecret?: string;
 }
 
 export interface Config {
@@ -15,21 +147,77 @@ export interface Config {
     accessToken?: string;
     email?: string;
     password?: string;
+    pagination: {
+      pageSize: number;
+      maxItems: number;
+    };
+    // Checked before Teams messages are posted as questions
+    questionRules: QuestionRules;
   };
   monitoring: {
     checkIntervalMs: number;
     logLevel: string;
+    newPosts: {
+      pageSize: number;
+    };
+    maxBackoffMs: number;
+    cleanupIntervalMs: number;
+    digestCheckIntervalMs: number;
+    escalationCheckIntervalMs: number;
+    deliveryWindowCheckIntervalMs: number;
+    outboundRetryIntervalMs: number;
+    commentCheckIntervalMs: number;
   };
   teams: {
     defaultChannel?: ChannelMapping;
     channels: ChannelMapping[];
     newPostReplyWebhook?: string;
+    replyPayloadFormat: WebhookPayloadFormat;
+    syncComments: boolean;
+    // Adaptive Card schema version stamped on every card
+    cardVersion: string;
+    // Characters of question, answer and comment text shown before "Read more"
+    excerptLength: number;
+    // JSON file mapping Apache Answers users to Teams users for @mentions
+    userMapFile?: string;
+    // Named sets of message templates; the "default" set applies everywhere
+    templateSets: Record<string, Record<string, string>>;
+    // Locale for dates (runtime default when unset)
+    locale?: string;
+  };
+  outbound: {
+    // Attempts per message before it is moved to the dead-letter list
+    maxAttempts: number;
+    retryBaseMs: number;
+    maxRetryDelayMs: number;
+    // Default rate limit applied to each webhook URL
+    rateLimit: RateLimit;
   };
   callback: {
     port: number;
+    // Token required by the /admin endpoints; they are disabled without one
+    adminToken?: string;
+    // Credentials per callback flow; a flow without any is unauthenticated
+    auth: Record<CallbackFlow, CallbackCredentials>;
+    // Maximum age of a signature's timestamp, in seconds
+    signatureToleranceSeconds: number;
+    // Comment on the question when another reaction repeats an emoji callback
+    commentOnRepeatReaction: boolean;
+  };
+  state: {
+    backend: "file" | "memory";
+    filePath: string;
+    // Delay before changes are written to the state file
+    flushDelayMs: number;
+    // Days question ↔ Teams links and learned askers are kept
+    linkRetentionDays: number;
   };
 }
 
+function parsePayloadFormat(value?: string): WebhookPayloadFormat {
+  return value === "workflows" || value === "adaptive-card" ? value : "legacy";
+}
+
 export const config: Config = {
   answers: {
     baseUrl: process.env.ANSWERS_BASE_URL || "https://meta.answer.dev",
@@ -37,10 +225,53 @@ export const config: Config = {
     accessToken: process.env.ANSWERS_ACCESS_TOKEN,
     email: process.env.ANSWERS_EMAIL,
     password: process.env.ANSWERS_PASSWORD,
+    pagination: {
+      pageSize: parseInt(process.env.ANSWERS_PAGE_SIZE || "50", 10),
+      maxItems: parseInt(
+        process.env.ANSWERS_PAGINATION_MAX_ITEMS || "1000",
+        10
+      ),
+    },
+    questionRules: {
+      titleMinLength: parseInt(process.env.ANSWERS_TITLE_MIN_LENGTH || "6", 10),
+      titleMaxLength: parseInt(
+        process.env.ANSWERS_TITLE_MAX_LENGTH || "150",
+        10
+      ),
+      bodyMinLength: parseInt(process.env.ANSWERS_BODY_MIN_LENGTH || "6", 10),
+    },
   },
   monitoring: {
     checkIntervalMs: parseInt(process.env.CHECK_INTERVAL_MS || "30000", 10),
     logLevel: process.env.LOG_LEVEL || "info",
+    newPosts: {
+      pageSize: parseInt(process.env.NEW_POSTS_PAGE_SIZE || "20", 10),
+    },
+    maxBackoffMs: parseInt(process.env.MAX_BACKOFF_MS || "600000", 10),
+    cleanupIntervalMs: parseInt(
+      process.env.CLEANUP_INTERVAL_MS || "3600000",
+      10
+    ),
+    digestCheckIntervalMs: parseInt(
+      process.env.DIGEST_CHECK_INTERVAL_MS || "60000",
+      10
+    ),
+    escalationCheckIntervalMs: parseInt(
+      process.env.ESCALATION_CHECK_INTERVAL_MS || "900000",
+      10
+    ),
+    deliveryWindowCheckIntervalMs: parseInt(
+      process.env.DELIVERY_WINDOW_CHECK_INTERVAL_MS || "60000",
+      10
+    ),
+    outboundRetryIntervalMs: parseInt(
+      process.env.OUTBOUND_RETRY_INTERVAL_MS || "15000",
+      10
+    ),
+    commentCheckIntervalMs: parseInt(
+      process.env.COMMENT_CHECK_INTERVAL_MS || "120000",
+      10
+    ),
   },
   teams: {
     defaultChannel: process.env.TEAMS_DEFAULT_WEBHOOK_URL
@@ -48,14 +279,98 @@ export const config: Config = {
           tags: [],
           webhookUrl: process.env.TEAMS_DEFAULT_WEBHOOK_URL,
           channelName: "Default",
+          payloadFormat: parsePayloadFormat(
+            process.env.TEAMS_DEFAULT_PAYLOAD_FORMAT
+          ),
         }
       : undefined,
     channels: process.env.TEAMS_CHANNELS
       ? JSON.parse(process.env.TEAMS_CHANNELS)
       : [],
     newPostReplyWebhook: process.env.TEAMS_NEW_POST_REPLY_WEBHOOK,
+    replyPayloadFormat: parsePayloadFormat(
+      process.env.TEAMS_REPLY_PAYLOAD_FORMAT
+    ),
+    syncComments: process.env.TEAMS_SYNC_COMMENTS !== "false",
+    cardVersion: process.env.TEAMS_CARD_VERSION || "1.4",
+    excerptLength: parseInt(process.env.TEAMS_EXCERPT_LENGTH || "300", 10),
+    userMapFile: process.env.TEAMS_USER_MAP_FILE,
+    templateSets: process.env.TEAMS_TEMPLATES
+      ? JSON.parse(process.env.TEAMS_TEMPLATES)
+      : {},
+    locale: process.env.TEAMS_LOCALE,
+  },
+  outbound: {
+    maxAttempts: parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || "8", 10),
+    retryBaseMs: parseInt(process.env.OUTBOUND_RETRY_BASE_MS || "30000", 10),
+    maxRetryDelayMs: parseInt(
+      process.env.OUTBOUND_MAX_RETRY_DELAY_MS || "3600000",
+      10
+    ),
+    rateLimit: {
+      perMinute: parseInt(process.env.WEBHOOK_RATE_PER_MINUTE || "30", 10),
+      burst: parseInt(process.env.WEBHOOK_RATE_BURST || "4", 10),
+    },
   },
   callback: {
     port: parseInt(process.env.CALLBACK_PORT || "3000", 10),
+    adminToken: process.env.ADMIN_TOKEN,
+    auth: {
+      emoji: {
+        apiKey:
+          process.env.CALLBACK_EMOJI_API_KEY || process.env.CALLBACK_API_KEY,
+        hmacSecret:
+          process.env.CALLBACK_EMOJI_HMAC_SECRET ||
+          process.env.CALLBACK_HMAC_SECRET,
+      },
+      "power-automate": {
+        apiKey:
+          process.env.CALLBACK_POWER_AUTOMATE_API_KEY ||
+          process.env.CALLBACK_API_KEY,
+        hmacSecret:
+          process.env.CALLBACK_POWER_AUTOMATE_HMAC_SECRET ||
+          process.env.CALLBACK_HMAC_SECRET,
+      },
+    },
+    signatureToleranceSeconds: parseInt(
+      process.env.CALLBACK_SIGNATURE_TOLERANCE_SECONDS || "300",
+      10
+    ),
+    commentOnRepeatReaction:
+      process.env.CALLBACK_EMOJI_REPEAT_COMMENT === "true",
+  },
+  state: {
+    backend: process.env.STATE_BACKEND === "memory" ? "memory" : "file",
+    filePath: process.env.STATE_FILE_PATH || "data/state.json",
+    flushDelayMs: parseInt(process.env.STATE_FLUSH_DELAY_MS || "1000", 10),
+    linkRetentionDays: parseInt(
+      process.env.STATE_LINK_RETENTION_DAYS || "180",
+      10
+    ),
   },
 };
+
+/**
+ * Reject rate limits a token bucket cannot work with: a zero, negative or
+ * non-numeric rate would never refill
+ */
+function checkRateLimit(label: string, limit: RateLimit): void {
+  for (const field of ["perMinute", "burst"] as const) {
+    const value = limit[field];
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      throw new Error(
+        `${label}: rate limit ${field} must be a positive number, got ${value}`
+      );
+    }
+  }
+}
+
+checkRateLimit(
+  "WEBHOOK_RATE_PER_MINUTE/WEBHOOK_RATE_BURST",
+  config.outbound.rateLimit
+);
+for (const channel of config.teams.channels) {
+  if (channel.rateLimit) {
+    checkRateLimit(`Channel "${channel.channelName}"`, channel.rateLimit);
+  }
+}
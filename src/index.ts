@@ -2,13 +2,39 @@ import { PostMonitor } from "./monitor";
 import { CallbackService } from "./services/callbackService";
 import { config } from "./config/config";
 import logger from "./services/logger";
+import { getStateStore } from "./services/stateStore";
+import { validateTemplates } from "./utils/messageTemplates";
+import { validateSchedules } from "./utils/schedule";
+import { validateRoutingRules } from "./utils/routingRules";
 
 async function main() {
   logger.info("🚀 Starting Apache Answers - Teams Integration");
 
+  const channels = [
+    ...config.teams.channels,
+    ...(config.teams.defaultChannel ? [config.teams.defaultChannel] : []),
+  ];
+  const configErrors = [
+    ...validateTemplates(),
+    ...validateSchedules(channels),
+    ...validateRoutingRules(channels),
+  ];
+  if (configErrors.length > 0) {
+    for (const error of configErrors) {
+      logger.error(`❌ ${error}`);
+    }
+    logger.error(
+      "Invalid message templates, locales, time zones, schedules or routing rules"
+    );
+    process.exit(1);
+  }
+
   const monitor = new PostMonitor();
   const callbackService = new CallbackService();
 
+  // State is written lazily; write what is pending however the process ends
+  process.on("exit", () => getStateStore().flush());
+
   // Handle graceful shutdown
   process.on("SIGINT", async () => {
     logger.info("Received SIGINT, shutting down gracefully...");
@@ -0,0 +1,82 @@
+import { config } from "./config/config";
+import { PostMonitor } from "./monitor";
+import { AnswersApiService } from "./services/answersApi";
+import { AnswerTracker } from "./services/answerTracker";
+import { CommentWatcher } from "./services/commentWatcher";
+import { DeliveryRecords } from "./services/deliveryRecords";
+import { DeliveryWindowService } from "./services/deliveryWindow";
+import logger from "./services/logger";
+import { OutboundQueue } from "./services/outboundQueue";
+import { SentQuestionsTracker } from "./services/sentQuestionsTracker";
+import { MemoryStateStore, setStateStore } from "./services/stateStore";
+import { TeamsLinkRegistry } from "./services/teamsLinkRegistry";
+import { UserDirectory } from "./services/userDirectory";
+
+describe("PostMonitor scheduling", () => {
+  let monitor: PostMonitor;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 4, 15) });
+    setStateStore(new MemoryStateStore());
+    for (const singleton of [
+      SentQuestionsTracker,
+      TeamsLinkRegistry,
+      DeliveryWindowService,
+      OutboundQueue,
+      DeliveryRecords,
+      UserDirectory,
+    ]) {
+      singleton.resetInstance();
+    }
+    for (const level of ["info", "warn", "error", "debug"] as const) {
+      jest.spyOn(logger, level).mockImplementation(() => logger);
+    }
+
+    // Keep the other tasks away from Apache Answers
+    jest
+      .spyOn(AnswersApiService.prototype, "testConnection")
+      .mockResolvedValue(true);
+    jest
+      .spyOn(AnswersApiService.prototype, "iterateQuestions")
+      .mockImplementation(async function* () {});
+    jest
+      .spyOn(
+        PostMonitor.prototype as unknown as {
+          checkForNewPosts(): Promise<void>;
+        },
+        "checkForNewPosts"
+      )
+      .mockResolvedValue(undefined);
+
+    monitor = new PostMonitor();
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    setStateStore(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("runs the cleanup task on its interval", async () => {
+    const cleanups = [
+      jest.spyOn(SentQuestionsTracker.prototype, "clearOldQuestions"),
+      jest.spyOn(AnswerTracker.prototype, "cleanupOldQuestions"),
+      jest.spyOn(CommentWatcher.prototype, "cleanupOldQuestions"),
+      jest.spyOn(DeliveryRecords.prototype, "cleanupOldRecords"),
+    ];
+    await monitor.start();
+
+    await jest.advanceTimersByTimeAsync(
+      config.monitoring.cleanupIntervalMs - 1
+    );
+    for (const cleanup of cleanups) {
+      expect(cleanup).not.toHaveBeenCalled();
+    }
+
+    await jest.advanceTimersByTimeAsync(1);
+    for (const cleanup of cleanups) {
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    }
+  });
+});
@@ -1,20 +1,119 @@
 import { AnswersApiService } from "./services/answersApi";
 import { TeamsService } from "./services/teamsService";
 import { AnswerTracker } from "./services/answerTracker";
-import { config } from "./config/config";
+import { CommentWatcher } from "./services/commentWatcher";
+import { EscalationScheduler } from "./services/escalationScheduler";
+import { DigestService } from "./services/digestService";
+import { migrateLegacyTeamsIdComments } from "./services/teamsLinkMigration";
+import { TaskScheduler, TaskStatus } from "./services/scheduler";
+import { ChannelMapping, config } from "./config/config";
 import logger from "./services/logger";
+import { TeamsUser } from "./services/userDirectory";
+import { collect } from "./utils/pagination";
+import { renderToText } from "./utils/teamsMarkdown";
+import { mentionText } from "./utils/adaptiveCardBuilder";
+import {
+  ChannelText,
+  formatMessage,
+  readMoreLink,
+} from "./utils/messageTemplates";
+import { Answer, AnswerPost, QuestionStatus } from "./types/answers";
 
 export class PostMonitor {
   private answersApi: AnswersApiService;
   private teamsService: TeamsService;
   private answerTracker: AnswerTracker;
+  private commentWatcher: CommentWatcher;
+  private escalationScheduler: EscalationScheduler;
+  private digestService: DigestService;
+  private scheduler: TaskScheduler;
   private isRunning: boolean = false;
-  private intervalId: NodeJS.Timeout | null = null;
 
   constructor() {
     this.answersApi = new AnswersApiService();
     this.teamsService = new TeamsService();
     this.answerTracker = new AnswerTracker();
+    this.commentWatcher = new CommentWatcher(
+      this.answersApi,
+      this.teamsService
+    );
+    this.escalationScheduler = new EscalationScheduler(this.teamsService);
+    this.digestService = new DigestService(this.answersApi, this.teamsService);
+    this.scheduler = new TaskScheduler(config.monitoring.maxBackoffMs);
+    this.registerTasks();
+  }
+
+  /**
+   * Register the periodic jobs run by the scheduler
+   */
+  private registerTasks(): void {
+    this.scheduler.addTask({
+      name: "poll",
+      intervalMs: config.monitoring.checkIntervalMs,
+      runImmediately: true,
+      run: () => this.checkForNewPosts(),
+    });
+
+    this.scheduler.addTask({
+      name: "escalations",
+      intervalMs: config.monitoring.escalationCheckIntervalMs,
+      run: async () => {
+        const { maxItems } = config.answers.pagination;
+        const posts = await collect(
+          this.answersApi.iterateQuestions({ pageSize: 100 }, "unanswered")
+        );
+        await this.escalationScheduler.checkUnansweredQuestions(
+          posts,
+          posts.length < maxItems
+        );
+      },
+    });
+
+    // Adding a comment moves none of the markers the poll compares, so
+    // comments are checked on their own, slower cadence
+    if (config.teams.syncComments) {
+      this.scheduler.addTask({
+        name: "comments",
+        intervalMs: config.monitoring.commentCheckIntervalMs,
+        run: async () => {
+          const posts = await collect(
+            this.answersApi.iterateQuestions({ pageSize: 100, maxItems: 100 })
+          );
+          await this.commentWatcher.checkLinkedQuestions(posts, (questionId) =>
+            this.answerTracker.getAnswerIds(questionId)
+          );
+        },
+      });
+    }
+
+    this.scheduler.addTask({
+      name: "digests",
+      intervalMs: config.monitoring.digestCheckIntervalMs,
+      run: () => this.digestService.sendDueDigests(),
+    });
+
+    this.scheduler.addTask({
+      name: "delivery-windows",
+      intervalMs: config.monitoring.deliveryWindowCheckIntervalMs,
+      run: () => this.teamsService.releaseHeldMessages(),
+    });
+
+    this.scheduler.addTask({
+      name: "outbound",
+      intervalMs: config.monitoring.outboundRetryIntervalMs,
+      run: () => this.teamsService.getOutboundQueue().processDue(),
+    });
+
+    this.scheduler.addTask({
+      name: "cleanup",
+      intervalMs: config.monitoring.cleanupIntervalMs,
+      run: async () => {
+        this.teamsService.getSentQuestionsTracker().clearOldQuestions();
+        this.answerTracker.cleanupOldQuestions();
+        this.commentWatcher.cleanupOldQuestions();
+        this.teamsService.getDeliveryRecords().cleanupOldRecords();
+      },
+    });
   }
 
   /**
@@ -28,22 +127,16 @@ export class PostMonitor {
 
     logger.info("Starting Apache Answers post monitor...");
 
-    // Test connection first
+    // Test connection first; the poll task backs off while Answers is down
     const isConnected = await this.answersApi.testConnection();
     if (!isConnected) {
-      logger.error("Failed to connect to Apache Answers. Monitor not started.");
-      return;
+      logger.warn(
+        "Failed to connect to Apache Answers. Monitor will keep retrying with backoff."
+      );
     }
 
     this.isRunning = true;
-
-    // Check immediately
-    await this.checkForNewPosts();
-
-    // Set up interval
-    this.intervalId = setInterval(async () => {
-      await this.checkForNewPosts();
-    }, config.monitoring.checkIntervalMs);
+    this.scheduler.start();
 
     logger.info(
       `Monitor started. Checking every ${config.monitoring.checkIntervalMs}ms`
@@ -59,10 +152,7 @@ export class PostMonitor {
       return;
     }
 
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
+    this.scheduler.stop();
 
     this.isRunning = false;
     logger.info("Monitor stopped");
@@ -72,48 +162,58 @@ export class PostMonitor {
    * Check for new posts and log them
    */
   private async checkForNewPosts(): Promise<void> {
+    // Import Teams links from legacy ID comments (runs once)
     try {
-      const newPosts = await this.answersApi.checkForNewPosts();
+      await migrateLegacyTeamsIdComments(this.answersApi);
+    } catch (error) {
+      logger.error("❌ Failed to import legacy Teams ID comments:", error);
+    }
 
-      if (newPosts.length > 0) {
-        for (const post of newPosts) {
-          // Check if this post has the "from_teams" tag to prevent infinite loops
-          const hasFromTeamsTag = post.tags.some(
-            (tag) => tag.slug_name === "from_teams"
-          );
+    // Answers are still checked when new-post detection fails
+    let newPosts: AnswerPost[] = [];
+    let detectionError: unknown;
+    try {
+      newPosts = await this.answersApi.checkForNewPosts();
+    } catch (error) {
+      detectionError = error;
+    }
 
-          if (hasFromTeamsTag) {
-            logger.info(
-              `🚫 Skipping post with "from_teams" tag: ${post.title} by ${post.operator.username}`
-            );
-            continue;
-          }
+    for (const post of newPosts) {
+      // Check if this post has the "from_teams" tag to prevent infinite loops
+      const hasFromTeamsTag = post.tags.some(
+        (tag) => tag.slug_name === "from_teams"
+      );
 
-          logger.info(
-            `📝 New Post: ${post.title} by ${post.operator.username}`
-          );
+      if (hasFromTeamsTag) {
+        logger.info(
+          `🚫 Skipping post with "from_teams" tag: ${post.title} by ${post.operator.username}`
+        );
+        continue;
+      }
 
-          // Send to Teams
-          try {
-            await this.teamsService.sendPostToTeams(post);
-          } catch (error) {
-            logger.error(`❌ Failed to send post to Teams:`, error);
-          }
+      logger.info(`📝 New Post: ${post.title} by ${post.operator.username}`);
+
+      // Send to Teams
+      try {
+        const result = await this.teamsService.sendPostToTeams(post);
+        if (result.failed.length > 0) {
+          logger.warn(
+            `⚠️ Post "${post.title}" could not be delivered to: ${result.failed.join(
+              ", "
+            )} (see the dead-letter list)`
+          );
         }
+      } catch (error) {
+        logger.error(`❌ Failed to send post to Teams:`, error);
       }
+    }
 
-      // Check for answers on all recent questions
-      await this.checkForAnswers();
+    // Check for answers on all recent questions
+    await this.checkForAnswers();
 
-      // Periodically clean up old tracked questions (every 10th check)
-      const cleanupCounter = Math.floor(
-        Date.now() / (config.monitoring.checkIntervalMs * 10)
-      );
-      if (cleanupCounter % 10 === 0) {
-        this.teamsService.getSentQuestionsTracker().clearOldQuestions();
-      }
-    } catch (error) {
-      logger.error("❌ Error checking for new posts:", error);
+    // Let the scheduler back off once the answers were checked
+    if (detectionError) {
+      throw detectionError;
     }
   }
 
@@ -121,107 +221,350 @@ export class PostMonitor {
    * Check for answers on all questions and detect new ones
    */
   private async checkForAnswers(): Promise<void> {
-    try {
-      // Get all questions (using a larger page size to get more questions)
-      const allPosts = await this.answersApi.getRecentPosts(1, 100);
-
-      let totalNewAnswers = 0;
-      const newAnswerDetails: string[] = [];
-
-      for (const post of allPosts) {
-        try {
-          const answers = await this.answersApi.getAnswersForQuestion(post.id);
-          const answerIds = answers.map((answer) => answer.id);
-
-          // Update tracking and get new answers
-          const newAnswerIds = this.answerTracker.updateQuestionAnswers(
-            post.id,
-            post.title,
-            answerIds
+    // Get the most recent questions
+    const allPosts = await collect(
+      this.answersApi.iterateQuestions({ pageSize: 100, maxItems: 100 })
+    );
+
+    let totalNewAnswers = 0;
+    let fetchedQuestions = 0;
+    const newAnswerDetails: string[] = [];
+
+    for (const post of allPosts) {
+      // Only fetch answers when the question's change markers moved
+      if (!this.answerTracker.hasChanged(post)) {
+        this.answerTracker.markChecked(post.id);
+        continue;
+      }
+
+      try {
+        const answers =
+          post.answer_count > 0
+            ? await collect(this.answersApi.iterateAnswers(post.id))
+            : [];
+        const answerIds = answers.map((answer) => answer.id);
+        if (post.answer_count > 0) {
+          fetchedQuestions++;
+        }
+
+        // Update tracking and get new answers
+        const {
+          newAnswerIds,
+          acceptedAnswerChange,
+          titleChange,
+          statusChange,
+        } = this.answerTracker.updateQuestionAnswers(post, answerIds);
+
+        if (titleChange || statusChange) {
+          await this.notifyLifecycleChange(post, titleChange, statusChange);
+        }
+
+        if (acceptedAnswerChange) {
+          await this.notifyAcceptedAnswerChange(
+            post,
+            answers,
+            acceptedAnswerChange.currentId
+          );
+        }
+
+        totalNewAnswers += newAnswerIds.length;
+
+        // Collect new answer details and handle Teams replies
+        if (newAnswerIds.length > 0) {
+          newAnswerDetails.push(
+            `"${post.title}": [${newAnswerIds.join(", ")}]`
           );
 
-          totalNewAnswers += newAnswerIds.length;
+          // Try to reply to the Teams message if this question has one
+          try {
+            const answerUrl = `${config.answers.baseUrl}/questions/${post.id}`;
 
-          // Collect new answer details and handle Teams replies
-          if (newAnswerIds.length > 0) {
-            newAnswerDetails.push(
-              `"${post.title}": [${newAnswerIds.join(", ")}]`
+            // Get the actual answer content for the new answers
+            const newAnswers = answers.filter((answer) =>
+              newAnswerIds.includes(answer.id)
+            );
+            const mentions: TeamsUser[] = [];
+            const answerLines = newAnswers.map((answer) => ({
+              author: this.mentionOrName(answer.user_info, mentions),
+              content: (channel?: ChannelMapping) =>
+                renderToText(answer.content, {
+                  maxLength: config.teams.excerptLength,
+                  readMore: readMoreLink(`${answerUrl}/${answer.id}`, channel),
+                }),
+            }));
+
+            // Ping the asker so they notice their question was answered
+            const asker = this.teamsService
+              .getUserDirectory()
+              .getAsker(post.id, post.operator.username);
+            if (asker) {
+              mentions.push(asker);
+            }
+            const answerText = (channel?: ChannelMapping) =>
+              `${asker ? `${mentionText(asker)} ` : ""}${formatMessage(
+                "newAnswer",
+                {
+                  answers: answerLines
+                    .map((line) =>
+                      formatMessage(
+                        "answer",
+                        { author: line.author, content: line.content(channel) },
+                        channel
+                      )
+                    )
+                    .join("\n\n"),
+                },
+                channel
+              )}`;
+
+            const replied = await this.teamsService.replyToQuestionThread(
+              post.id,
+              answerUrl,
+              answerText,
+              post,
+              mentions
             );
 
-            // Try to reply to the Teams message if this question has one
-            try {
-              const teamsIds = await this.answersApi.getTeamsIdsForQuestion(
-                post.id
+            if (replied) {
+              logger.info(
+                `📤 Replied to Teams message for question "${post.title}"`
               );
-              if (teamsIds.messageId && teamsIds.teamId && teamsIds.channelId) {
-                const answerUrl = `${config.answers.baseUrl}/questions/${post.id}`;
-
-                // Get the actual answer content for the new answers
-                const newAnswers = answers.filter((answer) =>
-                  newAnswerIds.includes(answer.id)
-                );
-                const answerMessages = newAnswers
-                  .map((answer) => {
-                    const content =
-                      answer.content.substring(0, 200) +
-                      (answer.content.length > 200 ? "..." : "");
-                    return `**${answer.user_info.display_name}**: ${content}`;
-                  })
-                  .join("\n\n");
-
-                const answerText = `New answer added:\n\n${answerMessages}`;
-
-                await this.teamsService.replyToTeamsMessageWithFullContext(
-                  teamsIds.messageId,
-                  teamsIds.teamId,
-                  teamsIds.channelId,
-                  answerUrl,
-                  answerText
-                );
-
-                logger.info(
-                  `📤 Replied to Teams message for question "${post.title}"`
-                );
-              } else {
-                logger.debug(
-                  `No complete Teams IDs found for question "${post.title}" (messageId: ${teamsIds.messageId}, teamId: ${teamsIds.teamId}, channelId: ${teamsIds.channelId})`
-                );
-              }
-            } catch (teamsError) {
-              logger.error(
-                `❌ Failed to reply to Teams for question "${post.title}":`,
-                teamsError
+            } else {
+              logger.debug(
+                `No linked Teams message for question "${post.title}"`
               );
             }
+          } catch (teamsError) {
+            logger.error(
+              `❌ Failed to reply to Teams for question "${post.title}":`,
+              teamsError
+            );
           }
-        } catch (error) {
-          logger.error(
-            `❌ Failed to fetch answers for question "${post.title}" (ID: ${post.id}):`,
-            error
+        }
+      } catch (error) {
+        logger.error(
+          `❌ Failed to fetch answers for question "${post.title}" (ID: ${post.id}):`,
+          error
+        );
+      }
+    }
+
+    if (totalNewAnswers > 0) {
+      logger.info(`🆕 New answers found: ${newAnswerDetails.join(", ")}`);
+    } else {
+      logger.info("No new answers");
+    }
+    logger.debug(
+      `Fetched answers for ${fetchedQuestions} of ${allPosts.length} question(s)`
+    );
+
+    await this.checkForDeletedQuestions(allPosts);
+  }
+
+  /**
+   * Tell the linked Teams thread when a question was retitled, closed,
+   * reopened or otherwise changed status
+   */
+  private async notifyLifecycleChange(
+    post: AnswerPost,
+    titleChange?: { previous: string; current: string },
+    statusChange?: { previous: number; current: number }
+  ): Promise<void> {
+    const text = (channel?: ChannelMapping) => {
+      const changes: string[] = [];
+      if (titleChange) {
+        changes.push(formatMessage("questionRetitled", titleChange, channel));
+      }
+      if (statusChange) {
+        changes.push(this.describeStatus(statusChange.current, channel));
+      }
+      return changes.join("\n\n");
+    };
+
+    await this.sendLifecycleUpdate(post.id, post.title, text, post);
+  }
+
+  /**
+   * Check linked questions that dropped out of the recent list, and tell
+   * their Teams thread if they were deleted
+   */
+  private async checkForDeletedQuestions(posts: AnswerPost[]): Promise<void> {
+    const listedIds = new Set(posts.map((post) => post.id));
+    const linkRegistry = this.teamsService.getLinkRegistry();
+
+    for (const questionId of this.answerTracker.getTrackedQuestionIds()) {
+      if (
+        listedIds.has(questionId) ||
+        !linkRegistry.getByQuestionId(questionId)
+      ) {
+        continue;
+      }
+
+      const title = this.answerTracker.getQuestionTitle(questionId) || "";
+      try {
+        if (await this.answersApi.isQuestionDeleted(questionId)) {
+          logger.info(`🗑️ Question "${title}" (ID: ${questionId}) was deleted`);
+          await this.sendLifecycleUpdate(questionId, title, (channel) =>
+            this.describeStatus(QuestionStatus.Deleted, channel)
           );
         }
+
+        // Either deleted or older than the recent list; stop tracking it
+        this.answerTracker.stopTracking(questionId);
+      } catch (error) {
+        logger.error(
+          `❌ Failed to check whether question "${title}" (ID: ${questionId}) was deleted:`,
+          error
+        );
       }
+    }
+  }
 
-      if (totalNewAnswers > 0) {
-        logger.info(`🆕 New answers found: ${newAnswerDetails.join(", ")}`);
-      } else {
-        logger.info("No new answers");
+  private describeStatus(status: number, channel?: ChannelMapping): string {
+    switch (status) {
+      case QuestionStatus.Available:
+        return formatMessage("questionReopened", {}, channel);
+      case QuestionStatus.Closed:
+        return formatMessage("questionClosed", {}, channel);
+      case QuestionStatus.Deleted:
+        return formatMessage("questionDeleted", {}, channel);
+      case QuestionStatus.Pending:
+        return formatMessage("questionPending", {}, channel);
+      default:
+        return formatMessage("questionStatusChanged", { status }, channel);
+    }
+  }
+
+  private async sendLifecycleUpdate(
+    questionId: string,
+    title: string,
+    text: ChannelText,
+    post?: AnswerPost
+  ): Promise<void> {
+    const questionUrl = `${config.answers.baseUrl}/questions/${questionId}`;
+    try {
+      const replied = await this.teamsService.replyToQuestionThread(
+        questionId,
+        questionUrl,
+        text,
+        post
+      );
+      if (replied) {
+        logger.info(`📤 Sent question update to Teams for "${title}"`);
       }
+    } catch (error) {
+      logger.error(
+        `❌ Failed to send question update to Teams for "${title}":`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Reply in the linked Teams thread when an answer is accepted or un-accepted
+   */
+  private async notifyAcceptedAnswerChange(
+    post: AnswerPost,
+    answers: Answer[],
+    acceptedAnswerId: string | null
+  ): Promise<void> {
+    const questionUrl = `${config.answers.baseUrl}/questions/${post.id}`;
+    const mentions: TeamsUser[] = [];
+    let text: ChannelText;
+
+    if (acceptedAnswerId) {
+      const accepted = answers.find((answer) => answer.id === acceptedAnswerId);
+      logger.info(
+        `✅ Answer ${acceptedAnswerId} accepted for question "${post.title}"`
+      );
 
-      // Clean up old tracked questions periodically
-      this.answerTracker.cleanupOldQuestions();
+      const acceptedLine = accepted
+        ? {
+            author: this.mentionOrName(accepted.user_info, mentions),
+            content: (channel?: ChannelMapping) =>
+              renderToText(accepted.content, {
+                maxLength: config.teams.excerptLength,
+                readMore: readMoreLink(
+                  `${questionUrl}/${accepted.id}`,
+                  channel
+                ),
+              }),
+          }
+        : undefined;
+      text = (channel) =>
+        [
+          formatMessage("solved", {}, channel),
+          ...(acceptedLine
+            ? [
+                formatMessage(
+                  "acceptedAnswer",
+                  {
+                    author: acceptedLine.author,
+                    content: acceptedLine.content(channel),
+                  },
+                  channel
+                ),
+              ]
+            : []),
+        ].join("\n\n");
+    } else {
+      logger.info(`↩️ Accepted answer removed for question "${post.title}"`);
+      text = (channel) => formatMessage("acceptedAnswerRemoved", {}, channel);
+    }
+
+    try {
+      const replied = await this.teamsService.replyToQuestionThread(
+        post.id,
+        questionUrl,
+        text,
+        post,
+        mentions
+      );
+      if (replied) {
+        logger.info(
+          `📤 Sent accepted answer update to Teams for question "${post.title}"`
+        );
+      }
     } catch (error) {
-      logger.error("❌ Error checking for answers:", error);
+      logger.error(
+        `❌ Failed to send accepted answer update to Teams for question "${post.title}":`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Mention an Apache Answers user who is mapped to a Teams user, adding
+   * them to `mentions`, or show their display name in bold
+   */
+  private mentionOrName(
+    user: { username: string; display_name: string },
+    mentions: TeamsUser[]
+  ): string {
+    const teamsUser = this.teamsService
+      .getUserDirectory()
+      .findByAnswersUser(user.username);
+    if (!teamsUser) {
+      return `**${user.display_name}**`;
     }
+    mentions.push(teamsUser);
+    return mentionText(teamsUser);
   }
 
   /**
    * Get monitor status
    */
-  getStatus(): { isRunning: boolean; checkInterval: number } {
+  getStatus(): {
+    isRunning: boolean;
+    checkInterval: number;
+    tasks: TaskStatus[];
+    outbound: { pending: number; deadLetters: number; rateLimited: number };
+  } {
     return {
       isRunning: this.isRunning,
       checkInterval: config.monitoring.checkIntervalMs,
+      tasks: this.scheduler.getStatus(),
+      outbound: this.teamsService.getOutboundQueue().getStats(),
     };
   }
 }
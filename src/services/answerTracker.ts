@@ -1,25 +1,132 @@
+import { AnswerPost } from "../types/answers";
 import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
 
 interface QuestionAnswers {
   questionId: string;
   questionTitle: string;
   answerIds: Set<string>;
   lastChecked: number;
+  // Change markers from the question list, used to skip unchanged questions
+  answerCount: number;
+  lastAnswerId: string;
+  operatedAt: number;
+  acceptedAnswerId: string | null;
+  status: number;
 }
 
+export interface QuestionUpdate {
+  newAnswerIds: string[];
+  // Set when the accepted answer changed since the previous check
+  acceptedAnswerChange?: {
+    previousId: string | null;
+    currentId: string | null;
+  };
+  // Set when the question was retitled since the previous check
+  titleChange?: { previous: string; current: string };
+  // Set when the question status (e.g. closed) changed since the previous check
+  statusChange?: { previous: number; current: number };
+}
+
+/**
+ * Apache Answers reports "0" (or nothing) when no answer is accepted
+ */
+function normalizeAnswerId(id: string | undefined): string | null {
+  return id && id !== "0" ? id : null;
+}
+
+type PersistedQuestionAnswers = Omit<QuestionAnswers, "answerIds"> & {
+  answerIds: string[];
+};
+
+const STATE_KEY = "answerTracker.questions";
+
 export class AnswerTracker {
   private trackedQuestions: Map<string, QuestionAnswers> = new Map();
   private readonly maxAgeMs = 24 * 60 * 60 * 1000; // 24 hours
+  private store: StateStore;
+
+  constructor(store: StateStore = getStateStore()) {
+    this.store = store;
+    this.load();
+  }
+
+  /**
+   * Restore tracked questions from the state store
+   */
+  private load(): void {
+    const persisted =
+      this.store.get<PersistedQuestionAnswers[]>(STATE_KEY) || [];
+
+    for (const data of persisted) {
+      this.trackedQuestions.set(data.questionId, {
+        ...data,
+        answerIds: new Set(data.answerIds),
+      });
+    }
+
+    if (persisted.length > 0) {
+      logger.info(
+        `🗄️ Restored answer tracking for ${persisted.length} question(s)`
+      );
+    }
+  }
+
+  /**
+   * Write tracked questions to the state store
+   */
+  private save(): void {
+    const persisted: PersistedQuestionAnswers[] = Array.from(
+      this.trackedQuestions.values()
+    ).map((data) => ({
+      ...data,
+      answerIds: Array.from(data.answerIds),
+    }));
+    this.store.set(STATE_KEY, persisted);
+  }
+
+  /**
+   * Whether a question's answers may have changed since it was last tracked,
+   * based on the answer_count, last_answer_id and operated_at in the list
+   */
+  hasChanged(post: AnswerPost): boolean {
+    const existing = this.trackedQuestions.get(post.id);
+    if (!existing) {
+      return true;
+    }
+
+    return (
+      existing.answerCount !== post.answer_count ||
+      existing.lastAnswerId !== post.last_answer_id ||
+      existing.operatedAt !== post.operated_at ||
+      existing.acceptedAnswerId !==
+        normalizeAnswerId(post.accepted_answer_id) ||
+      existing.questionTitle !== post.title ||
+      existing.status !== post.status
+    );
+  }
+
+  /**
+   * Mark an unchanged question as checked so it is not cleaned up
+   */
+  markChecked(questionId: string): void {
+    const existing = this.trackedQuestions.get(questionId);
+    if (existing) {
+      existing.lastChecked = Date.now();
+    }
+  }
 
   /**
    * Update tracked answers for a question
    */
   updateQuestionAnswers(
-    questionId: string,
-    questionTitle: string,
+    post: AnswerPost,
     currentAnswerIds: string[]
-  ): string[] {
+  ): QuestionUpdate {
     const now = Date.now();
+    const questionId = post.id;
+    const questionTitle = post.title;
+    const acceptedAnswerId = normalizeAnswerId(post.accepted_answer_id);
     const existing = this.trackedQuestions.get(questionId);
 
     if (!existing) {
@@ -29,12 +136,18 @@ export class AnswerTracker {
         questionTitle,
         answerIds: new Set(currentAnswerIds),
         lastChecked: now,
+        answerCount: post.answer_count,
+        lastAnswerId: post.last_answer_id,
+        operatedAt: post.operated_at,
+        acceptedAnswerId,
+        status: post.status,
       });
+      this.save();
 
       logger.debug(
         `🆕 Started tracking question "${questionTitle}" with ${currentAnswerIds.length} existing answers`
       );
-      return []; // No new answers on first check
+      return { newAnswerIds: [] }; // No new answers on first check
     }
 
     // Update existing tracking
@@ -46,14 +159,62 @@ export class AnswerTracker {
       (id) => !previousAnswerIds.has(id)
     );
 
+    // Older persisted entries have no accepted answer recorded yet
+    const previousAcceptedId =
+      existing.acceptedAnswerId === undefined
+        ? acceptedAnswerId
+        : existing.acceptedAnswerId;
+    const acceptedAnswerChange =
+      previousAcceptedId !== acceptedAnswerId
+        ? { previousId: previousAcceptedId, currentId: acceptedAnswerId }
+        : undefined;
+    const titleChange =
+      existing.questionTitle !== questionTitle
+        ? { previous: existing.questionTitle, current: questionTitle }
+        : undefined;
+    const statusChange =
+      existing.status !== undefined && existing.status !== post.status
+        ? { previous: existing.status, current: post.status }
+        : undefined;
+
     // Update the tracked data
     existing.answerIds = currentAnswerIdsSet;
     existing.questionTitle = questionTitle;
     existing.lastChecked = now;
+    existing.answerCount = post.answer_count;
+    existing.lastAnswerId = post.last_answer_id;
+    existing.operatedAt = post.operated_at;
+    existing.acceptedAnswerId = acceptedAnswerId;
+    existing.status = post.status;
+    this.save();
 
     // New answers will be logged by the monitor
 
-    return newAnswerIds;
+    return { newAnswerIds, acceptedAnswerChange, titleChange, statusChange };
+  }
+
+  /**
+   * Get the answer IDs last seen for a question
+   */
+  getAnswerIds(questionId: string): string[] {
+    const existing = this.trackedQuestions.get(questionId);
+    return existing ? Array.from(existing.answerIds) : [];
+  }
+
+  /**
+   * Get the last known title of a tracked question
+   */
+  getQuestionTitle(questionId: string): string | undefined {
+    return this.trackedQuestions.get(questionId)?.questionTitle;
+  }
+
+  /**
+   * Stop tracking a question (e.g. it was deleted)
+   */
+  stopTracking(questionId: string): void {
+    if (this.trackedQuestions.delete(questionId)) {
+      this.save();
+    }
   }
 
   /**
@@ -85,6 +246,7 @@ export class AnswerTracker {
     }
 
     if (toDelete.length > 0) {
+      this.save();
       logger.info(`🧹 Cleaned up ${toDelete.length} old question trackings`);
     }
   }
@@ -0,0 +1,129 @@
+import { AnswerPost } from "../types/answers";
+import { config } from "../config/config";
+import { AnswersApiService } from "./answersApi";
+import logger from "./logger";
+import { MemoryStateStore } from "./stateStore";
+
+function post(id: string, createdAt: number, pin = 1): AnswerPost {
+  return {
+    id,
+    created_at: createdAt,
+    pin,
+    title: `Question ${id}`,
+  } as AnswerPost;
+}
+
+/**
+ * Serve `posts` (newest first) page by page, like the question list API
+ */
+function serve(service: AnswersApiService, posts: () => AnswerPost[]) {
+  return jest
+    .spyOn(service, "getRecentPosts")
+    .mockImplementation(async (page = 1, pageSize = 20) =>
+      posts().slice((page - 1) * pageSize, page * pageSize)
+    );
+}
+
+describe("AnswersApiService new-post watermark", () => {
+  const { pageSize } = config.monitoring.newPosts;
+  const { maxItems } = config.answers.pagination;
+  let store: MemoryStateStore;
+  let service: AnswersApiService;
+  let posts: AnswerPost[];
+
+  beforeEach(() => {
+    config.monitoring.newPosts.pageSize = 2;
+    config.answers.pagination.maxItems = 1000;
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    jest.spyOn(logger, "error").mockImplementation(() => logger);
+
+    store = new MemoryStateStore();
+    service = new AnswersApiService(store);
+    posts = [post("3", 300), post("2", 200), post("1", 100)];
+    serve(service, () => posts);
+  });
+
+  afterEach(() => {
+    config.monitoring.newPosts.pageSize = pageSize;
+    config.answers.pagination.maxItems = maxItems;
+    jest.restoreAllMocks();
+  });
+
+  const ids = (list: AnswerPost[]) => list.map((item) => item.id);
+
+  it("sets a baseline on the first check without reporting old posts", async () => {
+    expect(await service.checkForNewPosts()).toEqual([]);
+    expect(store.get("answersApi.newPostWatermark")).toEqual({
+      createdAt: 300,
+      postIds: ["3"],
+    });
+  });
+
+  it("reports new posts oldest first, once", async () => {
+    await service.checkForNewPosts();
+    posts = [post("5", 500), post("4", 400), ...posts];
+
+    expect(ids(await service.checkForNewPosts())).toEqual(["4", "5"]);
+    expect(await service.checkForNewPosts()).toEqual([]);
+  });
+
+  it("neither skips nor repeats posts created in the same second", async () => {
+    await service.checkForNewPosts();
+    posts = [post("3b", 300), ...posts];
+
+    expect(ids(await service.checkForNewPosts())).toEqual(["3b"]);
+    expect(await service.checkForNewPosts()).toEqual([]);
+    expect(store.get("answersApi.newPostWatermark")).toEqual({
+      createdAt: 300,
+      postIds: ["3", "3b"],
+    });
+  });
+
+  it("keeps scanning past an old pinned post at the top of the list", async () => {
+    await service.checkForNewPosts();
+    posts = [post("1", 100, 2), post("4", 400), post("3", 300), post("2", 200)];
+
+    expect(ids(await service.checkForNewPosts())).toEqual(["4"]);
+  });
+
+  it("continues from the persisted watermark after a restart", async () => {
+    await service.checkForNewPosts();
+    posts = [post("4", 400), ...posts];
+
+    const restarted = new AnswersApiService(store);
+    serve(restarted, () => posts);
+    expect(ids(await restarted.checkForNewPosts())).toEqual(["4"]);
+  });
+
+  it("pages through every new post while catching up", async () => {
+    await service.checkForNewPosts();
+    const backlog = Array.from({ length: 25 }, (_, index) =>
+      post(`n${index}`, 1000 - index)
+    );
+    posts = [...backlog, ...posts];
+
+    const found = await service.checkForNewPosts();
+    expect(found).toHaveLength(25);
+    expect(found[0].id).toBe("n24");
+  });
+
+  it("delivers what it found and moves on when the scan limit is hit", async () => {
+    const warn = jest.spyOn(logger, "warn").mockImplementation(() => logger);
+    await service.checkForNewPosts();
+    posts = [post("6", 600), post("5", 500), post("4", 400), ...posts];
+    config.answers.pagination.maxItems = 2;
+
+    expect(ids(await service.checkForNewPosts())).toEqual(["5", "6"]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("ANSWERS_PAGINATION_MAX_ITEMS")
+    );
+
+    // The next poll makes progress instead of hitting the same limit
+    posts = [post("7", 700), ...posts];
+    expect(ids(await service.checkForNewPosts())).toEqual(["7"]);
+    expect(store.get("answersApi.newPostWatermark")).toEqual({
+      createdAt: 700,
+      postIds: ["7"],
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import axios, { AxiosInstance, AxiosError } from "axios";
+import axios, { AxiosInstance, AxiosError, isAxiosError } from "axios";
 import https from "https";
 import {
   AnswerPost,
@@ -10,20 +10,38 @@ import {
   AnswerQuestionResponse,
   Answer,
   AnswerListResponse,
+  QuestionStatus,
 } from "../types/answers";
 import { config } from "../config/config";
 import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
 import { getAccessToken } from "../utils/getAccessToken";
+import { paginate, PaginationOptions } from "../utils/pagination";
+
+/**
+ * Position of the newest post already handed to the monitor. All posts
+ * created at `createdAt` that were already seen are listed in `postIds`,
+ * so posts sharing the same second are neither skipped nor repeated.
+ */
+export interface NewPostWatermark {
+  createdAt: number;
+  postIds: string[];
+}
+
+const WATERMARK_KEY = "answersApi.newPostWatermark";
 
 export class AnswersApiService {
   private client: AxiosInstance;
-  private lastCheckedPostId: string | null = null;
+  private watermark: NewPostWatermark | null = null;
   private currentAccessToken: string | null = null;
   private tokenRefreshPromise: Promise<string> | null = null;
+  private store: StateStore;
 
-  constructor() {
+  constructor(store: StateStore = getStateStore()) {
     this.currentAccessToken = config.answers.accessToken || null;
-    
+    this.store = store;
+    this.watermark = this.store.get<NewPostWatermark>(WATERMARK_KEY) || null;
+
     this.client = axios.create({
       baseURL: config.answers.baseUrl,
       timeout: 10000,
@@ -136,11 +154,13 @@ export class AnswersApiService {
   }
 
   /**
-   * Fetch recent posts from Apache Answers
+   * Fetch a page of questions from Apache Answers, newest first unless
+   * another list order (e.g. "unanswered") is given
    */
   async getRecentPosts(
     page: number = 1,
-    pageSize: number = 20
+    pageSize: number = 20,
+    order: string = "newest"
   ): Promise<AnswerPost[]> {
     try {
       const response = await this.client.get<
@@ -149,7 +169,7 @@ export class AnswersApiService {
         params: {
           page,
           page_size: pageSize,
-          order: "newest",
+          order,
         },
       });
 
@@ -170,7 +190,8 @@ export class AnswersApiService {
   async getPostById(postId: string): Promise<AnswerPost> {
     try {
       const response = await this.client.get<AnswerApiResponse<AnswerPost>>(
-        `/api/v1/question/${postId}`
+        `/answer/api/v1/question/info`,
+        { params: { id: postId } }
       );
 
       if (response.data.code !== 200) {
@@ -185,42 +206,134 @@ export class AnswersApiService {
   }
 
   /**
-   * Check for new posts since last check
+   * Whether a question has been deleted (or no longer exists)
    */
-  async checkForNewPosts(): Promise<AnswerPost[]> {
+  async isQuestionDeleted(questionId: string): Promise<boolean> {
     try {
-      const recentPosts = await this.getRecentPosts(1, 10);
+      const post = await this.getPostById(questionId);
+      return post.status === QuestionStatus.Deleted;
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return true;
+      }
+      throw error;
+    }
+  }
 
-      if (!this.lastCheckedPostId) {
+  /**
+   * Check for new posts since last check, paging back through
+   * `/question/page` until the watermark is reached
+   */
+  async checkForNewPosts(): Promise<AnswerPost[]> {
+    try {
+      if (!this.watermark) {
         // First run - set the latest post as baseline
-        this.lastCheckedPostId = recentPosts[0]?.id || null;
+        const recentPosts = await this.getRecentPosts(1, 10);
+        const baseline = this.advanceWatermark(recentPosts);
         logger.info(
-          `🎯 Initial baseline set to post ID: ${this.lastCheckedPostId}`
+          `🎯 Initial baseline set to created_at ${
+            baseline.createdAt
+          } (post IDs: ${baseline.postIds.join(", ")})`
         );
         return [];
       }
 
-      // Find posts newer than our last check
-      const newPosts = [];
-      for (const post of recentPosts) {
-        if (post.id === this.lastCheckedPostId) {
+      const { pageSize } = config.monitoring.newPosts;
+      const { maxItems } = config.answers.pagination;
+      const newPosts = new Map<string, AnswerPost>();
+      let scanned = 0;
+      let olderInARow = 0;
+      let caughtUp = false;
+
+      for await (const post of this.iterateQuestions({ pageSize, maxItems })) {
+        scanned++;
+
+        if (this.isAfterWatermark(post)) {
+          newPosts.set(post.id, post);
+          olderInARow = 0;
+        } else {
+          olderInARow++;
+        }
+
+        // Pinned posts can appear out of order, so only stop once a full
+        // page worth of posts in a row is at or before the watermark
+        if (olderInARow >= pageSize) {
+          caughtUp = true;
           break;
         }
-        newPosts.push(post);
       }
 
-      if (newPosts.length > 0) {
-        this.lastCheckedPostId = recentPosts[0].id;
-        logger.info(`🎉 Found ${newPosts.length} new posts!`);
+      const sortedPosts = Array.from(newPosts.values()).sort(
+        (a, b) => a.created_at - b.created_at || a.id.localeCompare(b.id)
+      );
+
+      // Deliver what was found rather than stall on the same limit every
+      // poll; new posts older than the scan reached are skipped
+      if (!caughtUp && scanned >= maxItems) {
+        logger.warn(
+          `⚠️ Scanned ${scanned} posts without catching up with the new-post watermark; new posts created before ${
+            sortedPosts[0]
+              ? new Date(sortedPosts[0].created_at * 1000).toISOString()
+              : "the oldest scanned post"
+          } were skipped. Raise ANSWERS_PAGINATION_MAX_ITEMS to scan further back.`
+        );
       }
 
-      return newPosts;
+      if (sortedPosts.length > 0) {
+        this.advanceWatermark(sortedPosts);
+        logger.info(`🎉 Found ${sortedPosts.length} new posts!`);
+      }
+
+      return sortedPosts;
     } catch (error) {
+      // Let the scheduler see the failure so it can back off
       logger.error("Failed to check for new posts:", error);
-      return [];
+      throw error;
     }
   }
 
+  /**
+   * Whether a post was created after the new-post watermark
+   */
+  private isAfterWatermark(post: AnswerPost): boolean {
+    if (!this.watermark) {
+      return true;
+    }
+    if (post.created_at !== this.watermark.createdAt) {
+      return post.created_at > this.watermark.createdAt;
+    }
+    return !this.watermark.postIds.includes(post.id);
+  }
+
+  /**
+   * Move the watermark to the newest of the given posts and persist it so
+   * restarts continue where we stopped
+   */
+  private advanceWatermark(posts: AnswerPost[]): NewPostWatermark {
+    let watermark: NewPostWatermark = this.watermark || {
+      createdAt: 0,
+      postIds: [],
+    };
+
+    for (const post of posts) {
+      if (post.created_at > watermark.createdAt) {
+        watermark = { createdAt: post.created_at, postIds: [post.id] };
+      } else if (
+        post.created_at === watermark.createdAt &&
+        !watermark.postIds.includes(post.id)
+      ) {
+        watermark = {
+          createdAt: watermark.createdAt,
+          postIds: [...watermark.postIds, post.id],
+        };
+      }
+    }
+
+    this.watermark = watermark;
+    this.store.set(WATERMARK_KEY, watermark);
+    return watermark;
+  }
+
   /**
    * Post a comment to a specific question
    */
@@ -369,9 +482,13 @@ export class AnswersApiService {
   }
 
   /**
-   * Get comments for a specific question
+   * Get comments for a specific question (or answer)
    */
-  async getCommentsForQuestion(questionId: string): Promise<AnswerComment[]> {
+  async getCommentsForQuestion(
+    questionId: string,
+    page: number = 1,
+    pageSize: number = 50
+  ): Promise<AnswerComment[]> {
     try {
       const response = await this.client.get<
         AnswerApiResponse<{
@@ -381,8 +498,8 @@ export class AnswersApiService {
       >(`/answer/api/v1/comment/page`, {
         params: {
           object_id: questionId,
-          page: 1,
-          page_size: 50,
+          page,
+          page_size: pageSize,
         },
       });
 
@@ -404,76 +521,127 @@ export class AnswersApiService {
   }
 
   /**
-   * Extract Teams IDs from question comments
+   * Iterate over every question in a list order (newest first by default),
+   * across all pages
    */
-  async getTeamsIdsForQuestion(questionId: string): Promise<{
+  iterateQuestions(
+    options: PaginationOptions = {},
+    order: string = "newest"
+  ): AsyncGenerator<AnswerPost> {
+    const { pageSize, maxItems } = this.resolvePagination(options);
+    return paginate(
+      async (page, size) => ({
+        list: await this.getRecentPosts(page, size, order),
+      }),
+      pageSize,
+      maxItems
+    );
+  }
+
+  /**
+   * Iterate over every answer of a question across all pages
+   */
+  iterateAnswers(
+    questionId: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<Answer> {
+    const { pageSize, maxItems } = this.resolvePagination(options);
+    return paginate(
+      async (page, size) => ({
+        list: await this.getAnswersForQuestion(questionId, page, size),
+      }),
+      pageSize,
+      maxItems
+    );
+  }
+
+  /**
+   * Iterate over every comment of a question (or answer) across all pages
+   */
+  iterateComments(
+    objectId: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<AnswerComment> {
+    const { pageSize, maxItems } = this.resolvePagination(options);
+    return paginate(
+      async (page, size) => ({
+        list: await this.getCommentsForQuestion(objectId, page, size),
+      }),
+      pageSize,
+      maxItems
+    );
+  }
+
+  /**
+   * Fill in pagination defaults from config
+   */
+  private resolvePagination(
+    options: PaginationOptions
+  ): Required<PaginationOptions> {
+    return {
+      pageSize: options.pageSize ?? config.answers.pagination.pageSize,
+      maxItems: options.maxItems ?? config.answers.pagination.maxItems,
+    };
+  }
+
+  /**
+   * Extract Teams IDs from legacy "Teams Message ID: …" question comments.
+   * New links live in TeamsLinkRegistry; this is only used to import old ones.
+   * Errors reading the comments are thrown, so they are not mistaken for a
+   * question without IDs.
+   */
+  async findLegacyTeamsIds(questionId: string): Promise<{
     messageId: string | null;
     teamId: string | null;
     channelId: string | null;
   }> {
-    try {
-      const comments = await this.getCommentsForQuestion(questionId);
-
-      // Look for a comment containing "Teams Message ID:"
-      for (const comment of comments) {
-        if (comment.original_text.includes("Teams Message ID:")) {
-          const messageIdMatch = comment.original_text.match(
-            /Teams Message ID:\s*([^\s\n]+)/
-          );
-          const teamIdMatch = comment.original_text.match(
-            /Teams Team ID:\s*([^\s\n]+)/
-          );
-          const channelIdMatch = comment.original_text.match(
-            /Teams Channel ID:\s*([^\s\n]+)/
-          );
-
-          const result = {
-            messageId:
-              messageIdMatch && messageIdMatch[1] ? messageIdMatch[1] : null,
-            teamId: teamIdMatch && teamIdMatch[1] ? teamIdMatch[1] : null,
-            channelId:
-              channelIdMatch && channelIdMatch[1] ? channelIdMatch[1] : null,
-          };
-
-          logger.debug(`Found Teams IDs for question ${questionId}:`, result);
-          return result;
-        }
-      }
+    // Look for a comment containing "Teams Message ID:"
+    for await (const comment of this.iterateComments(questionId)) {
+      if (comment.original_text.includes("Teams Message ID:")) {
+        const messageIdMatch = comment.original_text.match(
+          /Teams Message ID:\s*([^\s\n]+)/
+        );
+        const teamIdMatch = comment.original_text.match(
+          /Teams Team ID:\s*([^\s\n]+)/
+        );
+        const channelIdMatch = comment.original_text.match(
+          /Teams Channel ID:\s*([^\s\n]+)/
+        );
 
-      logger.debug(`No Teams IDs found for question ${questionId}`);
-      return { messageId: null, teamId: null, channelId: null };
-    } catch (error) {
-      logger.error(
-        `Failed to extract Teams IDs for question ${questionId}:`,
-        error
-      );
-      return { messageId: null, teamId: null, channelId: null };
+        const result = {
+          messageId:
+            messageIdMatch && messageIdMatch[1] ? messageIdMatch[1] : null,
+          teamId: teamIdMatch && teamIdMatch[1] ? teamIdMatch[1] : null,
+          channelId:
+            channelIdMatch && channelIdMatch[1] ? channelIdMatch[1] : null,
+        };
+
+        logger.debug(`Found Teams IDs for question ${questionId}:`, result);
+        return result;
+      }
     }
+
+    logger.debug(`No Teams IDs found for question ${questionId}`);
+    return { messageId: null, teamId: null, channelId: null };
   }
 
   /**
-   * Post a comment with Teams IDs to a question
+   * Like findLegacyTeamsIds, but returns no IDs when the comments cannot be
+   * read
    */
-  async postTeamsIdsComment(
-    questionId: string,
-    messageId: string,
-    teamId: string,
-    channelId: string
-  ): Promise<void> {
+  async getTeamsIdsForQuestion(questionId: string): Promise<{
+    messageId: string | null;
+    teamId: string | null;
+    channelId: string | null;
+  }> {
     try {
-      await this.postComment(
-        questionId,
-        `Teams Message ID: ${messageId}\nTeams Team ID: ${teamId}\nTeams Channel ID: ${channelId}`
-      );
-      logger.info(
-        `✅ Successfully added Teams IDs comment to question ${questionId}`
-      );
+      return await this.findLegacyTeamsIds(questionId);
     } catch (error) {
       logger.error(
-        `❌ Failed to add Teams IDs comment to question ${questionId}:`,
+        `Failed to extract Teams IDs for question ${questionId}:`,
         error
       );
-      throw error;
+      return { messageId: null, teamId: null, channelId: null };
     }
   }
 
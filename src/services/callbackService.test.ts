@@ -0,0 +1,60 @@
+import axios from "axios";
+import { config } from "../config/config";
+import { CallbackService } from "./callbackService";
+import logger from "./logger";
+import { MemoryStateStore, setStateStore } from "./stateStore";
+
+describe("CallbackService field checks", () => {
+  const { auth } = config.callback;
+  const port = 38471;
+  let service: CallbackService;
+
+  beforeAll(async () => {
+    setStateStore(new MemoryStateStore());
+    config.callback.auth = { emoji: {}, "power-automate": {} };
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    jest.spyOn(logger, "warn").mockImplementation(() => logger);
+    service = new CallbackService(port);
+    await service.start();
+  });
+
+  afterAll(async () => {
+    await service.stop();
+    config.callback.auth = auth;
+    setStateStore(null);
+    jest.restoreAllMocks();
+  });
+
+  const request = (method: "get" | "post", path: string, data?: object) =>
+    axios.request({
+      method,
+      url: `http://localhost:${port}${path}`,
+      data,
+      validateStatus: () => true,
+    });
+
+  it.each([
+    ["/callback/emoji", { item: 42, messageId: "m1" }, "item"],
+    ["/callback/emoji", { item: "Hi", teamId: ["t1"] }, "teamId"],
+    ["/callback/emoji", { item: "Hi", reactionCount: "many" }, "reactionCount"],
+    ["/callback/power-automate", { postId: "1", body: { a: 1 } }, "body"],
+  ])(
+    "answers 400 when a POST to %s has a field of the wrong type",
+    async (path, body, field) => {
+      const response = await request("post", path, body);
+
+      expect(response.status).toBe(400);
+      expect(response.data.message).toContain(field);
+    }
+  );
+
+  it("checks repeated query parameters too", async () => {
+    const response = await request(
+      "get",
+      "/callback/emoji?item=a&item=b&messageId=m1"
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.data.message).toContain("item");
+  });
+});
@@ -1,8 +1,22 @@
-import express, { Request, Response } from "express";
-import { config } from "../config/config";
+import express, {
+  NextFunction,
+  Request,
+  RequestHandler,
+  Response,
+} from "express";
+import { CallbackFlow, config } from "../config/config";
 import { AnswersApiService } from "./answersApi";
 import { TeamsService } from "./teamsService";
+import { TeamsMessageLink, teamsMessageKey } from "./teamsLinkRegistry";
+import { questionUrl } from "./notifier";
 import logger from "./logger";
+import { formatMessage } from "../utils/messageTemplates";
+import { extractQuestion, validateQuestion } from "../utils/questionExtraction";
+import {
+  checkSignature,
+  ReplayGuard,
+  secretsMatch,
+} from "../utils/callbackAuth";
 
 export interface PowerAutomateCallback {
   messageId: string;
@@ -24,6 +38,146 @@ export interface TeamsEmojiReactionCallback {
   reactionType?: string;
   reactionCount?: number;
   timestamp?: string;
+  // Teams author of the message, remembered for @mentions
+  authorId?: string;
+  authorName?: string;
+}
+
+type CallbackFields = Record<string, unknown>;
+
+// Type check of each callback field; missing fields are left to the handlers
+type FieldChecks = Record<string, (value: unknown) => boolean>;
+
+const isText = (value: unknown) => typeof value === "string";
+const isCount = (value: unknown) =>
+  (typeof value === "number" || typeof value === "string") &&
+  Number.isFinite(Number(value));
+
+const EMOJI_FIELDS: FieldChecks = {
+  // The message text, or the Teams message object in a JSON body
+  item: (value) =>
+    isText(value) ||
+    (!!value && typeof value === "object" && !Array.isArray(value)),
+  teamId: isText,
+  channelId: isText,
+  messageId: isText,
+  messageLink: isText,
+  tag: isText,
+  reactionType: isText,
+  reactionCount: isCount,
+  timestamp: isText,
+  authorId: isText,
+  authorName: isText,
+};
+
+const POWER_AUTOMATE_FIELDS: FieldChecks = {
+  messageId: isText,
+  messageLink: isText,
+  body: isText,
+  postId: isText,
+  timestamp: isText,
+  teamId: isText,
+  channelId: isText,
+};
+
+// Request with the exact bytes of its JSON body, which signatures cover
+type RawBodyRequest = Request & { rawBody?: Buffer };
+
+function optionalString(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  return String(value);
+}
+
+/**
+ * Read an emoji reaction callback from query parameters or a JSON body.
+ * In a JSON body, `item` may also be the Teams message object itself.
+ * The field types have been checked against `EMOJI_FIELDS`.
+ */
+function readEmojiCallback(fields: CallbackFields): TeamsEmojiReactionCallback {
+  const reactionCount = optionalString(fields.reactionCount);
+  return {
+    item:
+      fields.item && typeof fields.item === "object"
+        ? JSON.stringify(fields.item)
+        : (fields.item as string),
+    teamId: fields.teamId as string,
+    channelId: fields.channelId as string,
+    messageId: fields.messageId as string,
+    messageLink: fields.messageLink as string,
+    tag: fields.tag as string,
+    reactionType: optionalString(fields.reactionType),
+    reactionCount:
+      reactionCount !== undefined ? Number(reactionCount) : undefined,
+    timestamp: optionalString(fields.timestamp),
+    authorId: optionalString(fields.authorId),
+    authorName: optionalString(fields.authorName),
+  };
+}
+
+/**
+ * Read a Power Automate callback from query parameters or a JSON body whose
+ * field types have been checked against `POWER_AUTOMATE_FIELDS`
+ */
+function readPowerAutomateCallback(
+  fields: CallbackFields
+): PowerAutomateCallback {
+  return {
+    messageId: fields.messageId as string,
+    messageLink: fields.messageLink as string,
+    body: fields.body as string,
+    postId: fields.postId as string,
+    timestamp: optionalString(fields.timestamp) || new Date().toISOString(),
+    teamId: fields.teamId as string,
+    channelId: fields.channelId as string,
+  };
+}
+
+function isJsonObject(body: unknown): body is CallbackFields {
+  return !!body && typeof body === "object" && !Array.isArray(body);
+}
+
+/**
+ * Check the types of a callback's fields, answering 400 when any is wrong.
+ * Returns whether the fields can be read.
+ */
+function checkFields(
+  req: Request,
+  res: Response,
+  fields: CallbackFields,
+  checks: FieldChecks
+): boolean {
+  const invalid = Object.keys(checks).filter(
+    (name) =>
+      fields[name] !== undefined &&
+      fields[name] !== null &&
+      !checks[name](fields[name])
+  );
+  if (invalid.length === 0) {
+    return true;
+  }
+
+  logger.warn(
+    `🚫 ${req.method} ${req.path} with invalid field(s): ${invalid.join(", ")}`
+  );
+  res.status(400).json({
+    success: false,
+    message: `Invalid value for field(s): ${invalid.join(", ")}`,
+  });
+  return false;
+}
+
+function rejectNonJson(req: Request, res: Response): void {
+  logger.warn(
+    `🚫 ${req.method} ${req.path} without a JSON object body (Content-Type: ${
+      req.headers["content-type"] || "none"
+    })`
+  );
+  res.status(400).json({
+    success: false,
+    message: "Expected a JSON object body with Content-Type: application/json",
+  });
 }
 
 export class CallbackService {
@@ -32,20 +186,23 @@ export class CallbackService {
   private port: number;
   private answersApi: AnswersApiService;
   private teamsService: TeamsService;
+  private replayGuard: ReplayGuard;
+  // Emoji callbacks being posted, by Teams message, so repeats wait for them
+  private pendingEmojiReactions: Map<string, Promise<void>> = new Map();
 
   constructor(port?: number) {
     this.app = express();
     this.port = port || config.callback.port;
     this.answersApi = new AnswersApiService();
     this.teamsService = new TeamsService();
+    this.replayGuard = new ReplayGuard(
+      config.callback.signatureToleranceSeconds
+    );
     this.setupMiddleware();
     this.setupRoutes();
   }
 
   private setupMiddleware(): void {
-    // Parse JSON bodies
-    this.app.use(express.json());
-
     // Log all incoming requests
     this.app.use((req: Request, res: Response, next) => {
       logger.info(`📥 Incoming ${req.method} request to ${req.path}`);
@@ -63,347 +220,704 @@ export class CallbackService {
       });
     });
 
+    const emojiAuth = this.callbackAuth("emoji");
+    const powerAutomateAuth = this.callbackAuth("power-automate");
+
     // Teams emoji reaction callback endpoint
-    this.app.get("/callback/emoji", async (req: Request, res: Response) => {
-      try {
-        const item = req.query.item as string;
-        const teamId = req.query.teamId as string;
-        const channelId = req.query.channelId as string;
-        const messageId = req.query.messageId as string;
-        const messageLink = req.query.messageLink as string;
-        const tag = req.query.tag as string;
-        const reactionType = req.query.reactionType as string;
-        const reactionCount = req.query.reactionCount as string;
-
-        // Log the received parameters
-        logger.info("😀 Received Teams emoji reaction callback:", {
-          item,
-          teamId,
-          channelId,
-          messageId,
-          messageLink,
-          tag,
-          reactionType,
-          reactionCount,
-          timestamp: new Date().toISOString(),
-        });
+    this.app.get(
+      "/callback/emoji",
+      emojiAuth,
+      async (req: Request, res: Response) => {
+        if (!checkFields(req, res, req.query, EMOJI_FIELDS)) {
+          return;
+        }
+        await this.handleEmojiReaction(readEmojiCallback(req.query), res);
+      }
+    );
 
-        // Log detailed information
-        logger.info(`📦 Item: ${JSON.stringify(item, null, 2)}`);
-        logger.info(`👥 Team ID: ${teamId}`);
-        logger.info(`💬 Channel ID: ${channelId}`);
-        logger.info(`📨 Message ID: ${messageId}`);
-        logger.info(`🔗 Message Link: ${messageLink}`);
-        logger.info(`🏷️ Tag: ${tag || "No tag provided"}`);
-        logger.info(
-          `😀 Reaction Type: ${reactionType || "No reaction type provided"}`
+    // Same callback with a JSON body, for messages too long for a URL
+    this.app.post(
+      "/callback/emoji",
+      emojiAuth,
+      async (req: Request, res: Response) => {
+        if (!isJsonObject(req.body)) {
+          rejectNonJson(req, res);
+          return;
+        }
+        if (!checkFields(req, res, req.body, EMOJI_FIELDS)) {
+          return;
+        }
+        await this.handleEmojiReaction(readEmojiCallback(req.body), res);
+      }
+    );
+
+    // Power Automate callback endpoint
+    this.app.get(
+      "/callback/power-automate",
+      powerAutomateAuth,
+      async (req: Request, res: Response) => {
+        if (!checkFields(req, res, req.query, POWER_AUTOMATE_FIELDS)) {
+          return;
+        }
+        await this.handlePowerAutomate(
+          readPowerAutomateCallback(req.query),
+          res
         );
-        logger.info(
-          `🔢 Reaction Count: ${reactionCount || "No count provided"}`
+      }
+    );
+
+    // Same callback with a JSON body
+    this.app.post(
+      "/callback/power-automate",
+      powerAutomateAuth,
+      async (req: Request, res: Response) => {
+        if (!isJsonObject(req.body)) {
+          rejectNonJson(req, res);
+          return;
+        }
+        if (!checkFields(req, res, req.body, POWER_AUTOMATE_FIELDS)) {
+          return;
+        }
+        await this.handlePowerAutomate(
+          readPowerAutomateCallback(req.body),
+          res
         );
+      }
+    );
 
-        // Extract message content from item (item is a string from query params)
-        let messageContent = "No content available";
-        try {
-          const itemObj = JSON.parse(item);
-          messageContent =
-            itemObj?.body?.content ||
-            itemObj?.text ||
-            item ||
-            "No content available";
-        } catch {
-          // If item is not JSON, use it as plain text
-          messageContent = item || "No content available";
+    this.setupAdminRoutes();
+
+    // Catch-all for undefined routes
+    this.app.use((req: Request, res: Response) => {
+      logger.warn(
+        `🚫 Unknown route accessed: ${req.method} ${req.originalUrl}`
+      );
+      res.status(404).json({
+        success: false,
+        message: "Route not found",
+        availableRoutes: [
+          "/health",
+          "/debug/duplicate-test",
+          "/debug/tracker-status",
+          "/callback/power-automate",
+          "/callback/teams-message",
+          "/callback/emoji",
+          "/admin/outbound",
+        ],
+      });
+    });
+
+    // Malformed JSON gets the same answer as a missing JSON body, instead of
+    // Express's HTML error page
+    this.app.use(
+      (error: unknown, req: Request, res: Response, next: NextFunction) => {
+        if ((error as { type?: string })?.type === "entity.parse.failed") {
+          rejectNonJson(req, res);
+          return;
         }
+        next(error);
+      }
+    );
+  }
+
+  /**
+   * Handle an emoji reaction callback. A Teams message is posted as a
+   * question once; repeats (more reactions, or retries of the flow) get the
+   * existing question back.
+   */
+  private async handleEmojiReaction(
+    callback: TeamsEmojiReactionCallback,
+    res: Response
+  ): Promise<void> {
+    const { teamId, channelId, messageId } = callback;
+    if (!teamId || !channelId || !messageId) {
+      await this.postReactedMessage(callback, res);
+      return;
+    }
+
+    const key = teamsMessageKey(teamId, channelId, messageId);
+    // Wait for a callback of the same message that is still being posted
+    let pending = this.pendingEmojiReactions.get(key);
+    while (pending) {
+      await pending;
+      pending = this.pendingEmojiReactions.get(key);
+    }
+
+    const link = this.teamsService
+      .getLinkRegistry()
+      .getByTeamsMessage(teamId, channelId, messageId);
+    if (link) {
+      await this.handleRepeatReaction(callback, link, res);
+      return;
+    }
+
+    const posting = this.postReactedMessage(callback, res);
+    this.pendingEmojiReactions.set(key, posting);
+    try {
+      await posting;
+    } finally {
+      this.pendingEmojiReactions.delete(key);
+    }
+  }
 
-        // Create title from first line of message, truncated to 50 characters with ellipses
-        // Strip HTML tags from the content first
-        const strippedContent = messageContent.replace(/<[^>]*>/g, "");
-        const firstLine = strippedContent.split("\n")[0].trim();
-        const messageTitle =
-          firstLine.length > 50
-            ? firstLine.substring(0, 50) + "..."
-            : firstLine;
-
-        // Check if this message is a duplicate of a question we recently sent to Teams
-        logger.info(`🔍 Checking for duplicate message: "${messageTitle}"`);
+  /**
+   * Answer a repeated emoji callback with the question already created for
+   * the Teams message, optionally noting the new reaction on it
+   */
+  private async handleRepeatReaction(
+    callback: TeamsEmojiReactionCallback,
+    link: TeamsMessageLink,
+    res: Response
+  ): Promise<void> {
+    const { reactionType, reactionCount } = callback;
+    logger.info(
+      `🔁 Teams message ${callback.messageId} is already question ${link.questionId}, not posting it again`
+    );
+
+    // Retries of the flow repeat the reaction count; new reactions raise it
+    const isNewReaction =
+      reactionCount === undefined ||
+      this.teamsService
+        .getLinkRegistry()
+        .noteReactionCount(link, reactionCount);
+
+    if (config.callback.commentOnRepeatReaction && isNewReaction) {
+      try {
+        await this.answersApi.postComment(
+          link.questionId,
+          `+1 reaction: ${reactionType || "unknown"}${
+            reactionCount ? ` (${reactionCount} reactions)` : ""
+          }`
+        );
         logger.info(
-          `📝 Message content preview: "${strippedContent.substring(
-            0,
-            100
-          )}..."`
+          `✅ Added +1 reaction comment to question ${link.questionId}`
+        );
+      } catch (commentError) {
+        logger.error(
+          `❌ Failed to add +1 reaction comment to question ${link.questionId}:`,
+          commentError
         );
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Teams message was already posted as a question",
+      timestamp: new Date().toISOString(),
+      duplicate: true,
+      questionId: link.questionId,
+      questionUrl: questionUrl(link.questionId),
+    });
+  }
 
-        const sentQuestionsTracker =
-          this.teamsService.getSentQuestionsTracker();
+  /**
+   * Post a Teams message that got an emoji reaction as a question
+   */
+  private async postReactedMessage(
+    callback: TeamsEmojiReactionCallback,
+    res: Response
+  ): Promise<void> {
+    try {
+      const {
+        item,
+        teamId,
+        channelId,
+        messageId,
+        messageLink,
+        tag,
+        reactionType,
+        reactionCount,
+        authorId,
+        authorName,
+      } = callback;
+
+      // Log the received parameters
+      logger.info("😀 Received Teams emoji reaction callback:", {
+        item,
+        teamId,
+        channelId,
+        messageId,
+        messageLink,
+        tag,
+        reactionType,
+        reactionCount,
+        timestamp: new Date().toISOString(),
+      });
+
+      // Log detailed information
+      logger.info(`📦 Item: ${JSON.stringify(item, null, 2)}`);
+      logger.info(`👥 Team ID: ${teamId}`);
+      logger.info(`💬 Channel ID: ${channelId}`);
+      logger.info(`📨 Message ID: ${messageId}`);
+      logger.info(`🔗 Message Link: ${messageLink}`);
+      logger.info(`🏷️ Tag: ${tag || "No tag provided"}`);
+      logger.info(
+        `😀 Reaction Type: ${reactionType || "No reaction type provided"}`
+      );
+      logger.info(`🔢 Reaction Count: ${reactionCount || "No count provided"}`);
+
+      // Extract message content from item (plain text, HTML or the Teams message JSON)
+      let messageContent = "";
+      let itemAuthor: { id?: string; displayName?: string } | undefined;
+      try {
+        const itemObj = JSON.parse(item);
+        itemAuthor = itemObj?.from?.user;
+        messageContent = itemObj?.body?.content || itemObj?.text || item || "";
+      } catch {
+        // If item is not JSON, use it as plain text
+        messageContent = item || "";
+      }
+
+      // Pick a title and markdown body, then check them against the site's
+      // length rules before posting
+      const askerName = authorName || itemAuthor?.displayName;
+      const question = extractQuestion(messageContent, askerName);
+      const problems = validateQuestion(question);
+      if (problems.length > 0) {
+        logger.warn(
+          `⚠️ Teams message ${messageId} cannot be posted as a question: ${problems.join("; ")}`
+        );
+        res.status(422).json({
+          success: false,
+          message: "Teams message does not meet the question length rules",
+          timestamp: new Date().toISOString(),
+          errors: problems,
+        });
+        return;
+      }
+      const messageTitle = question.title;
+
+      // Check if this message is a duplicate of a question we recently sent to Teams
+      logger.info(`🔍 Checking for duplicate message: "${messageTitle}"`);
+      logger.info(
+        `📝 Message content preview: "${question.body.substring(0, 100)}..."`
+      );
+
+      const sentQuestionsTracker = this.teamsService.getSentQuestionsTracker();
+      logger.info(
+        `📊 Tracker stats before check:`,
+        sentQuestionsTracker.getStats()
+      );
+
+      const isDuplicate = sentQuestionsTracker.isDuplicateMessage(
+        messageTitle,
+        question.body
+      );
+
+      if (isDuplicate) {
+        logger.info(
+          `🚫 DUPLICATE DETECTED! Skipping message: "${messageTitle}"`
+        );
         logger.info(
-          `📊 Tracker stats before check:`,
+          `📊 Tracker stats after check:`,
           sentQuestionsTracker.getStats()
         );
-
-        const isDuplicate = sentQuestionsTracker.isDuplicateMessage(
-          messageTitle,
-          strippedContent
+        res.status(200).json({
+          success: true,
+          message: "Duplicate message detected and skipped",
+          timestamp: new Date().toISOString(),
+          duplicate: true,
+        });
+        return;
+      } else {
+        logger.info(
+          `✅ No duplicate detected, proceeding with message processing`
         );
+      }
 
-        if (isDuplicate) {
-          logger.info(
-            `🚫 DUPLICATE DETECTED! Skipping message: "${messageTitle}"`
-          );
-          logger.info(
-            `📊 Tracker stats after check:`,
-            sentQuestionsTracker.getStats()
-          );
-          res.status(200).json({
-            success: true,
-            message: "Duplicate message detected and skipped",
-            timestamp: new Date().toISOString(),
-            duplicate: true,
-          });
-          return;
-        } else {
-          logger.info(
-            `✅ No duplicate detected, proceeding with message processing`
+      // Post the Teams message as a question to Apache Answers
+      try {
+        const questionResponse =
+          await this.answersApi.postTeamsMessageAsQuestion(
+            messageTitle,
+            question.body,
+            teamId,
+            channelId,
+            messageId,
+            messageLink,
+            tag
           );
-        }
 
-        // Post the Teams message as a question to Apache Answers
-        try {
-          const questionResponse =
-            await this.answersApi.postTeamsMessageAsQuestion(
-              messageTitle,
-              strippedContent,
-              teamId,
-              channelId,
-              messageId,
-              messageLink,
-              tag
-            );
+        // Extract the question ID from the response
+        const questionId = questionResponse.data.id;
 
-          // Extract the question ID from the response
-          const questionId = questionResponse.data.id;
+        logger.info(
+          `✅ Successfully posted Teams message as question with ID: ${questionId}`
+        );
 
-          logger.info(
-            `✅ Successfully posted Teams message as question with ID: ${questionId}`
+        // Link the question to the Teams message it was created from
+        this.teamsService
+          .getLinkRegistry()
+          .link(
+            questionId,
+            messageId,
+            teamId,
+            channelId,
+            "emoji",
+            reactionCount
           );
 
-          // Add a comment with the messageId, teamId, and channelId to the question
-          try {
-            await this.answersApi.postTeamsIdsComment(
-              questionId,
-              messageId,
-              teamId,
-              channelId
-            );
-          } catch (commentError) {
-            logger.error(
-              `❌ Failed to add Teams IDs comment to question ${questionId}:`,
-              commentError
-            );
-            // Don't fail the entire request if comment fails
-          }
-
-          // Add a comment about the emoji reaction that triggered this
-          if (reactionType) {
-            try {
-              await this.answersApi.postComment(
-                questionId,
-                `Triggered by emoji reaction: ${reactionType}${
-                  reactionCount ? ` (${reactionCount} reactions)` : ""
-                }`
-              );
-              logger.info(
-                `✅ Successfully added emoji reaction comment to question ${questionId}`
-              );
-            } catch (commentError) {
-              logger.error(
-                `❌ Failed to add emoji reaction comment to question ${questionId}:`,
-                commentError
-              );
-              // Don't fail the entire request if comment fails
-            }
-          }
+        // Remember the Teams author so answers can @mention them
+        const askerId = authorId || itemAuthor?.id;
+        if (askerId && askerName) {
+          this.teamsService
+            .getUserDirectory()
+            .rememberAsker(questionId, { upn: askerId, name: askerName });
+        }
 
-          // Send notification back to Teams with the question URL
+        // Add a comment about the emoji reaction that triggered this
+        if (reactionType) {
           try {
-            const questionUrl = `${config.answers.baseUrl}/questions/${questionId}`;
-            await this.teamsService.replyToTeamsMessageWithFullContext(
-              messageId,
-              teamId,
-              channelId,
-              questionUrl,
-              `Teams message posted as question successfully${
-                reactionType ? ` (triggered by ${reactionType} reaction)` : ""
+            await this.answersApi.postComment(
+              questionId,
+              `Triggered by emoji reaction: ${reactionType}${
+                reactionCount ? ` (${reactionCount} reactions)` : ""
               }`
             );
             logger.info(
-              `📊 Tracker stats after processing:`,
-              sentQuestionsTracker.getStats()
+              `✅ Successfully added emoji reaction comment to question ${questionId}`
             );
-          } catch (notificationError) {
+          } catch (commentError) {
             logger.error(
-              `❌ Failed to send Teams notification:`,
-              notificationError
+              `❌ Failed to add emoji reaction comment to question ${questionId}:`,
+              commentError
             );
-            // Don't fail the entire request if notification fails
+            // Don't fail the entire request if comment fails
           }
+        }
 
-          // Respond with success
-          res.status(200).json({
-            success: true,
-            message: "Teams message posted as question successfully",
-            timestamp: new Date().toISOString(),
-            questionId: questionId,
-            receivedData: {
-              item,
-              teamId,
-              channelId,
-              messageId,
-              messageLink,
-              tag,
-              reactionType,
-              reactionCount,
-            },
-          });
-        } catch (questionError) {
+        // Send notification back to Teams with the question URL
+        try {
+          await this.teamsService.replyToTeamsMessageWithFullContext(
+            messageId,
+            teamId,
+            channelId,
+            questionUrl(questionId),
+            reactionType
+              ? formatMessage("createdFromTeamsByReaction", {
+                  reaction: reactionType,
+                })
+              : formatMessage("createdFromTeams")
+          );
+          logger.info(
+            `📊 Tracker stats after processing:`,
+            sentQuestionsTracker.getStats()
+          );
+        } catch (notificationError) {
           logger.error(
-            `❌ Failed to post Teams message as question:`,
-            questionError
+            `❌ Failed to send Teams notification:`,
+            notificationError
           );
-
-          // Still respond with success for the callback, but indicate the question posting failed
-          res.status(200).json({
-            success: true,
-            message:
-              "Teams emoji reaction callback received but failed to post as question",
-            timestamp: new Date().toISOString(),
-            error:
-              questionError instanceof Error
-                ? questionError.message
-                : "Unknown error",
-            receivedData: {
-              item,
-              teamId,
-              channelId,
-              messageId,
-              messageLink,
-              tag,
-              reactionType,
-              reactionCount,
-            },
-          });
+          // Don't fail the entire request if notification fails
         }
-      } catch (error) {
+
+        // Respond with success
+        res.status(200).json({
+          success: true,
+          message: "Teams message posted as question successfully",
+          timestamp: new Date().toISOString(),
+          questionId: questionId,
+          questionUrl: questionUrl(questionId),
+          receivedData: {
+            item,
+            teamId,
+            channelId,
+            messageId,
+            messageLink,
+            tag,
+            reactionType,
+            reactionCount,
+          },
+        });
+      } catch (questionError) {
         logger.error(
-          "❌ Error processing Teams emoji reaction callback:",
-          error
+          `❌ Failed to post Teams message as question:`,
+          questionError
         );
-        res.status(500).json({
-          success: false,
-          message: "Error processing Teams emoji reaction callback",
-          error: error instanceof Error ? error.message : "Unknown error",
+
+        // Still respond with success for the callback, but indicate the question posting failed
+        res.status(200).json({
+          success: true,
+          message:
+            "Teams emoji reaction callback received but failed to post as question",
+          timestamp: new Date().toISOString(),
+          error:
+            questionError instanceof Error
+              ? questionError.message
+              : "Unknown error",
+          receivedData: {
+            item,
+            teamId,
+            channelId,
+            messageId,
+            messageLink,
+            tag,
+            reactionType,
+            reactionCount,
+          },
         });
       }
-    });
+    } catch (error) {
+      logger.error("❌ Error processing Teams emoji reaction callback:", error);
+      res.status(500).json({
+        success: false,
+        message: "Error processing Teams emoji reaction callback",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Link a question to the Teams card that announced it
+   */
+  private async handlePowerAutomate(
+    callbackData: PowerAutomateCallback,
+    res: Response
+  ): Promise<void> {
+    try {
+      // Log the callback data
+      logger.info("🔄 Received Power Automate callback:", {
+        messageId: callbackData.messageId,
+        messageLink: callbackData.messageLink,
+        body: callbackData.body,
+        postId: callbackData.postId,
+        timestamp: callbackData.timestamp,
+        teamId: callbackData.teamId,
+        channelId: callbackData.channelId,
+      });
+
+      // Log detailed information
+      logger.info(`📨 Message ID: ${callbackData.messageId}`);
+      logger.info(`🔗 Message Link: ${callbackData.messageLink}`);
+      logger.info(`📝 Message Body: ${callbackData.body}`);
+      logger.info(`🔍 Apache Answers Post ID: ${callbackData.postId}`);
+
+      if (callbackData.postId) {
+        // Link the question to the Teams card that announced it
+        this.teamsService
+          .getLinkRegistry()
+          .link(
+            callbackData.postId,
+            callbackData.messageId,
+            callbackData.teamId,
+            callbackData.channelId,
+            "power-automate"
+          );
 
-    // Power Automate callback endpoint
-    this.app.get(
-      "/callback/power-automate",
-      async (req: Request, res: Response) => {
         try {
-          const callbackData: PowerAutomateCallback = {
-            messageId: req.query.messageId as string,
-            messageLink: req.query.messageLink as string,
-            body: req.query.body as string,
-            postId: req.query.postId as string,
-            timestamp:
-              (req.query.timestamp as string) || new Date().toISOString(),
-            teamId: req.query.teamId as string,
-            channelId: req.query.channelId as string,
-          };
-
-          // Log the callback data
-          logger.info("🔄 Received Power Automate callback:", {
-            messageId: callbackData.messageId,
-            messageLink: callbackData.messageLink,
-            body: callbackData.body,
-            postId: callbackData.postId,
-            timestamp: callbackData.timestamp,
-            teamId: callbackData.teamId,
-            channelId: callbackData.channelId,
-          });
-
-          // Log detailed information
-          logger.info(`📨 Message ID: ${callbackData.messageId}`);
-          logger.info(`🔗 Message Link: ${callbackData.messageLink}`);
-          logger.info(`📝 Message Body: ${callbackData.body}`);
-          logger.info(`🔍 Apache Answers Post ID: ${callbackData.postId}`);
-
-          if (callbackData.postId) {
-            try {
-              await this.answersApi.postTeamsIdsComment(
-                callbackData.postId,
-                callbackData.messageId,
-                callbackData.teamId,
-                callbackData.channelId
-              );
-
-              // Post a separate comment with the Teams link
-              await this.answersApi.postComment(
-                callbackData.postId,
-                `[View in Teams](${callbackData.messageLink})`
-              );
-
-              logger.info(
-                `✅ Successfully posted Teams message comment to Apache Answers post ${callbackData.postId}`
-              );
-            } catch (commentError) {
-              logger.error(
-                `❌ Failed to post comment to Apache Answers post ${callbackData.postId}:`,
-                commentError
-              );
-              // Don't fail the entire callback if comment posting fails
-            }
-          } else {
-            logger.warn("⚠️ No Apache Answers Post ID provided in callback");
-          }
+          // Post a comment with the Teams link for readers
+          await this.answersApi.postComment(
+            callbackData.postId,
+            `[View in Teams](${callbackData.messageLink})`
+          );
 
-          // Respond with success
-          res.status(200).json({
-            success: true,
-            message: "Callback received and processed successfully",
-            timestamp: new Date().toISOString(),
-            postId: callbackData.postId || null,
-          });
-        } catch (error) {
-          logger.error("❌ Error processing Power Automate callback:", error);
-          res.status(500).json({
-            success: false,
-            message: "Error processing callback",
-            error: error instanceof Error ? error.message : "Unknown error",
-          });
+          logger.info(
+            `✅ Successfully posted Teams message comment to Apache Answers post ${callbackData.postId}`
+          );
+        } catch (commentError) {
+          logger.error(
+            `❌ Failed to post comment to Apache Answers post ${callbackData.postId}:`,
+            commentError
+          );
+          // Don't fail the entire callback if comment posting fails
         }
+      } else {
+        logger.warn("⚠️ No Apache Answers Post ID provided in callback");
       }
-    );
 
-    // Catch-all for undefined routes
-    this.app.use((req: Request, res: Response) => {
+      // Respond with success
+      res.status(200).json({
+        success: true,
+        message: "Callback received and processed successfully",
+        timestamp: new Date().toISOString(),
+        postId: callbackData.postId || null,
+      });
+    } catch (error) {
+      logger.error("❌ Error processing Power Automate callback:", error);
+      res.status(500).json({
+        success: false,
+        message: "Error processing callback",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Middleware checking a callback against its flow's credentials: the API
+   * key from the X-Api-Key header or `token` query parameter, then the HMAC
+   * signature of the timestamp and JSON body. The body is only parsed once
+   * the API key was accepted. Flows without credentials are open.
+   */
+  private callbackAuth(flow: CallbackFlow): RequestHandler[] {
+    const { apiKey, hmacSecret } = config.callback.auth[flow];
+    const reject = (req: Request, res: Response, reason: string) => {
       logger.warn(
-        `🚫 Unknown route accessed: ${req.method} ${req.originalUrl}`
+        `🔒 Rejected ${flow} callback ${req.method} ${req.path} from ${req.ip}: ${reason}`
       );
-      res.status(404).json({
-        success: false,
-        message: "Route not found",
-        availableRoutes: [
-          "/health",
-          "/debug/duplicate-test",
-          "/debug/tracker-status",
-          "/callback/power-automate",
-          "/callback/teams-message",
-          "/callback/emoji",
-        ],
+      res.status(401).json({ success: false, message: "Unauthorized" });
+    };
+
+    return [
+      (req, res, next) => {
+        const reason = apiKey && this.getApiKeyRejection(req, apiKey);
+        if (reason) {
+          reject(req, res, reason);
+          return;
+        }
+        next();
+      },
+      // Callbacks may carry the full message HTML. The raw body is kept for
+      // signature checks.
+      express.json({
+        limit: "1mb",
+        verify: (req, _res, buf) => {
+          (req as RawBodyRequest).rawBody = buf;
+        },
+      }),
+      (req, res, next) => {
+        const reason =
+          hmacSecret && this.getSignatureRejection(req, hmacSecret);
+        if (reason) {
+          reject(req, res, reason);
+          return;
+        }
+        next();
+      },
+    ];
+  }
+
+  /**
+   * Why a callback's API key is rejected, or undefined when it is accepted
+   */
+  private getApiKeyRejection(req: Request, apiKey: string): string | undefined {
+    const token = req.get("x-api-key") || req.query.token;
+    if (typeof token !== "string" || !token) {
+      return "missing API key";
+    }
+    if (!secretsMatch(token, apiKey)) {
+      return "invalid API key";
+    }
+    return undefined;
+  }
+
+  /**
+   * Why a callback's signature is rejected, or undefined when it is valid
+   */
+  private getSignatureRejection(
+    req: Request,
+    hmacSecret: string
+  ): string | undefined {
+    if (req.method !== "POST") {
+      return "signed callbacks must be sent as POST requests";
+    }
+    const signature = req.get("x-signature");
+    const reason = checkSignature(
+      hmacSecret,
+      req.get("x-signature-timestamp"),
+      signature,
+      (req as RawBodyRequest).rawBody ?? "",
+      config.callback.signatureToleranceSeconds
+    );
+    if (reason) {
+      return reason;
+    }
+    if (!this.replayGuard.use(signature!)) {
+      return "replayed signature";
+    }
+    return undefined;
+  }
+
+  /**
+   * Only let requests carrying the configured admin token through. The admin
+   * routes are disabled entirely when no token is configured.
+   */
+  private requireAdminToken(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void {
+    const expected = config.callback.adminToken;
+    if (!expected) {
+      res.status(404).json({ success: false, message: "Route not found" });
+      return;
+    }
+
+    if (!secretsMatch(req.get("x-admin-token") || "", expected)) {
+      logger.warn(`🔒 Rejected admin request to ${req.path}`);
+      res.status(401).json({ success: false, message: "Unauthorized" });
+      return;
+    }
+    next();
+  }
+
+  /**
+   * Routes for inspecting and replaying the outbound delivery queue
+   */
+  private setupAdminRoutes(): void {
+    const outboundQueue = this.teamsService.getOutboundQueue();
+    const admin = express.Router();
+    admin.use((req, res, next) => this.requireAdminToken(req, res, next));
+
+    admin.get("/outbound", (req: Request, res: Response) => {
+      res.status(200).json({
+        success: true,
+        stats: outboundQueue.getStats(),
+        // Webhook URLs are secrets, so they are left out
+        deadLetters: outboundQueue
+          .getDeadLetters()
+          .map(({ webhookUrl: _webhookUrl, ...deadLetter }) => deadLetter),
       });
     });
+
+    admin.post(
+      "/outbound/dead-letters/replay",
+      async (req: Request, res: Response) => {
+        const results = await outboundQueue.replayAll();
+        res.status(200).json({ success: true, results });
+      }
+    );
+
+    admin.post(
+      "/outbound/dead-letters/:id/replay",
+      async (req: Request, res: Response) => {
+        const outcome = await outboundQueue.replay(req.params.id as string);
+        if (!outcome) {
+          res
+            .status(404)
+            .json({ success: false, message: "Dead letter not found" });
+          return;
+        }
+        res.status(200).json({ success: true, outcome });
+      }
+    );
+
+    admin.delete(
+      "/outbound/dead-letters/:id",
+      (req: Request, res: Response) => {
+        if (!outboundQueue.discard(req.params.id as string)) {
+          res
+            .status(404)
+            .json({ success: false, message: "Dead letter not found" });
+          return;
+        }
+        res.status(200).json({ success: true });
+      }
+    );
+
+    this.app.use("/admin", admin);
+  }
+
+  /**
+   * Warn about callback flows that accept requests from anyone
+   */
+  private warnAboutOpenCallbacks(): void {
+    for (const [flow, credentials] of Object.entries(config.callback.auth)) {
+      if (!credentials.apiKey && !credentials.hmacSecret) {
+        logger.warn(
+          `⚠️ The ${flow} callback is not authenticated; set an API key or HMAC secret for it`
+        );
+      }
+    }
   }
 
   /**
@@ -426,6 +940,7 @@ export class CallbackService {
           logger.info(
             `❤️  Health check available at: http://localhost:${this.port}/health`
           );
+          this.warnAboutOpenCallbacks();
           resolve();
         });
 
@@ -0,0 +1,104 @@
+import { AnswerComment, AnswerPost } from "../types/answers";
+import { AnswersApiService } from "./answersApi";
+import { CommentWatcher } from "./commentWatcher";
+import logger from "./logger";
+import { MemoryStateStore } from "./stateStore";
+import { TeamsService } from "./teamsService";
+
+function comment(id: string, text: string, createdAt = 1): AnswerComment {
+  return {
+    comment_id: id,
+    original_text: text,
+    created_at: createdAt,
+    username: "bob",
+    user_display_name: "Bob",
+  } as AnswerComment;
+}
+
+describe("CommentWatcher", () => {
+  const post = {
+    id: "q1",
+    title: "How do I deploy?",
+    answer_count: 1,
+  } as AnswerPost;
+  let comments: Record<string, AnswerComment[]>;
+  let replies: Array<{ questionId: string; text: string }>;
+  let linked: Set<string>;
+  let watcher: CommentWatcher;
+
+  beforeEach(() => {
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    comments = { q1: [comment("c1", "First")], a1: [] };
+    replies = [];
+    linked = new Set(["q1"]);
+
+    const answersApi = {
+      async *iterateComments(objectId: string) {
+        yield* comments[objectId] || [];
+      },
+    } as unknown as AnswersApiService;
+    const teamsService = {
+      getLinkRegistry: () => ({
+        getByQuestionId: (id: string) => (linked.has(id) ? {} : undefined),
+      }),
+      getUserDirectory: () => ({ findByAnswersUser: () => undefined }),
+      replyToQuestionThread: jest.fn(
+        async (
+          questionId: string,
+          _url: string,
+          text: (channel?: unknown) => string
+        ) => {
+          replies.push({ questionId, text: text() });
+          return true;
+        }
+      ),
+    } as unknown as TeamsService;
+
+    watcher = new CommentWatcher(
+      answersApi,
+      teamsService,
+      new MemoryStateStore()
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const check = () => watcher.checkLinkedQuestions([post], () => ["a1"]);
+
+  it("records existing comments on the first check without relaying them", async () => {
+    expect(await check()).toBe(0);
+    expect(replies).toEqual([]);
+  });
+
+  it("relays a new comment on a question whose list markers did not change", async () => {
+    await check();
+    comments.q1.push(comment("c2", "Did you try a restart?", 2));
+    comments.a1.push(comment("c3", "This worked for me", 3));
+
+    expect(await check()).toBe(2);
+    expect(replies.map((reply) => reply.questionId)).toEqual(["q1", "q1"]);
+    expect(replies[0].text).toContain("Did you try a restart?");
+    expect(replies[1].text).toContain("This worked for me");
+
+    // Each comment is relayed once
+    expect(await check()).toBe(0);
+  });
+
+  it("skips the integration's own bookkeeping comments", async () => {
+    await check();
+    comments.q1.push(comment("c2", "Teams Message ID: 123", 2));
+
+    expect(await check()).toBe(0);
+  });
+
+  it("ignores questions that are not linked to a Teams message", async () => {
+    linked.clear();
+    await check();
+    comments.q1.push(comment("c2", "Anyone?", 2));
+
+    expect(await check()).toBe(0);
+    expect(replies).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+import { AnswerComment, AnswerPost } from "../types/answers";
+import { config } from "../config/config";
+import { AnswersApiService } from "./answersApi";
+import { TeamsService } from "./teamsService";
+import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
+import { collect } from "../utils/pagination";
+import { renderToText } from "../utils/teamsMarkdown";
+import { mentionText } from "../utils/adaptiveCardBuilder";
+import { formatMessage, readMoreLink } from "../utils/messageTemplates";
+
+interface WatchedQuestion {
+  questionId: string;
+  // Comment IDs already seen, keyed by the question or answer they belong to
+  seenCommentIds: Record<string, string[]>;
+  lastChecked: number;
+}
+
+const STATE_KEY = "commentWatcher.questions";
+
+/**
+ * Comments the integration itself posts for bookkeeping; never relayed
+ */
+const BOOKKEEPING_COMMENT_PATTERNS: RegExp[] = [
+  /^Teams Message ID:/,
+  /^Triggered by emoji reaction:/,
+  /^\+1 reaction:/,
+  /^\[View in Teams\]\(/,
+];
+
+export class CommentWatcher {
+  private answersApi: AnswersApiService;
+  private teamsService: TeamsService;
+  private watchedQuestions: Map<string, WatchedQuestion> = new Map();
+  private readonly maxAgeMs = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private store: StateStore;
+
+  constructor(
+    answersApi: AnswersApiService,
+    teamsService: TeamsService,
+    store: StateStore = getStateStore()
+  ) {
+    this.answersApi = answersApi;
+    this.teamsService = teamsService;
+    this.store = store;
+
+    const persisted = this.store.get<WatchedQuestion[]>(STATE_KEY) || [];
+    for (const question of persisted) {
+      this.watchedQuestions.set(question.questionId, question);
+    }
+  }
+
+  private save(): void {
+    this.store.set(STATE_KEY, Array.from(this.watchedQuestions.values()));
+  }
+
+  /**
+   * Whether a comment was posted by this integration for bookkeeping
+   */
+  static isBookkeepingComment(comment: AnswerComment): boolean {
+    const text = comment.original_text.trim();
+    return BOOKKEEPING_COMMENT_PATTERNS.some((pattern) => pattern.test(text));
+  }
+
+  /**
+   * Relay new comments on every question in `posts` that is linked to a
+   * Teams message. Returns the number of comments relayed.
+   */
+  async checkLinkedQuestions(
+    posts: AnswerPost[],
+    getAnswerIds: (questionId: string) => string[]
+  ): Promise<number> {
+    const linkRegistry = this.teamsService.getLinkRegistry();
+    let totalRelayed = 0;
+
+    for (const post of posts) {
+      if (!linkRegistry.getByQuestionId(post.id)) {
+        continue;
+      }
+
+      try {
+        totalRelayed += await this.checkQuestion(post, getAnswerIds(post.id));
+      } catch (error) {
+        logger.error(
+          `❌ Failed to check comments for question "${post.title}" (ID: ${post.id}):`,
+          error
+        );
+      }
+    }
+
+    if (totalRelayed > 0) {
+      logger.info(`💬 Relayed ${totalRelayed} new comment(s) to Teams`);
+    }
+    return totalRelayed;
+  }
+
+  /**
+   * Relay new comments on a question and its answers to the linked Teams
+   * thread. The first check of a question only records existing comments.
+   * Returns the number of comments relayed.
+   */
+  async checkQuestion(post: AnswerPost, answerIds: string[]): Promise<number> {
+    const existing = this.watchedQuestions.get(post.id);
+    const watched: WatchedQuestion = existing || {
+      questionId: post.id,
+      seenCommentIds: {},
+      lastChecked: Date.now(),
+    };
+
+    let relayed = 0;
+    for (const objectId of [post.id, ...answerIds]) {
+      const comments = await collect(this.answersApi.iterateComments(objectId));
+      const seen = watched.seenCommentIds[objectId];
+
+      // Objects seen for the first time are baselined, not relayed
+      if (seen) {
+        const newComments = comments
+          .filter((comment) => !seen.includes(comment.comment_id))
+          .filter((comment) => !CommentWatcher.isBookkeepingComment(comment))
+          .sort((a, b) => a.created_at - b.created_at);
+
+        for (const comment of newComments) {
+          await this.relayComment(post, objectId !== post.id, comment);
+          relayed++;
+        }
+      }
+
+      watched.seenCommentIds[objectId] = comments.map(
+        (comment) => comment.comment_id
+      );
+    }
+
+    watched.lastChecked = Date.now();
+    this.watchedQuestions.set(post.id, watched);
+    this.save();
+
+    return relayed;
+  }
+
+  private async relayComment(
+    post: AnswerPost,
+    onAnswer: boolean,
+    comment: AnswerComment
+  ): Promise<void> {
+    const questionUrl = `${config.answers.baseUrl}/questions/${post.id}`;
+    const author = this.teamsService
+      .getUserDirectory()
+      .findByAnswersUser(comment.username);
+
+    await this.teamsService.replyToQuestionThread(
+      post.id,
+      questionUrl,
+      (channel) =>
+        formatMessage(
+          onAnswer ? "commentOnAnswer" : "commentOnQuestion",
+          {
+            author: author
+              ? mentionText(author)
+              : `**${comment.user_display_name}**`,
+            content: renderToText(comment.original_text, {
+              maxLength: config.teams.excerptLength,
+              readMore: readMoreLink(questionUrl, channel),
+            }),
+          },
+          channel
+        ),
+      post,
+      author ? [author] : []
+    );
+    logger.info(
+      `📤 Relayed comment ${comment.comment_id} on question "${post.title}" to Teams`
+    );
+  }
+
+  /**
+   * Stop watching questions that have not been checked for a while
+   */
+  cleanupOldQuestions(): void {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [questionId, watched] of this.watchedQuestions.entries()) {
+      if (now - watched.lastChecked > this.maxAgeMs) {
+        this.watchedQuestions.delete(questionId);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.save();
+      logger.info(`🧹 Stopped watching comments on ${removed} old question(s)`);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import axios, { AxiosError, AxiosHeaders, AxiosResponse } from "axios";
+import { AnswerPost } from "../types/answers";
+import { DeliveryRecords } from "./deliveryRecords";
+import logger from "./logger";
+import { OutboundQueue } from "./outboundQueue";
+import { SentQuestionsTracker } from "./sentQuestionsTracker";
+import { MemoryStateStore, setStateStore } from "./stateStore";
+
+const post = { id: "q1", title: "Question q1" } as AnswerPost;
+
+describe("DeliveryRecords", () => {
+  let store: MemoryStateStore;
+  let posted: jest.SpyInstance;
+  let queue: OutboundQueue;
+  let records: DeliveryRecords;
+
+  beforeEach(() => {
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    jest.spyOn(logger, "warn").mockImplementation(() => logger);
+    jest.spyOn(logger, "error").mockImplementation(() => logger);
+    posted = jest.spyOn(axios, "post").mockResolvedValue({ status: 200 });
+
+    store = new MemoryStateStore();
+    setStateStore(store);
+    for (const singleton of [
+      OutboundQueue,
+      DeliveryRecords,
+      SentQuestionsTracker,
+    ]) {
+      singleton.resetInstance();
+    }
+    queue = OutboundQueue.getInstance();
+    records = DeliveryRecords.getInstance();
+  });
+
+  afterEach(() => {
+    setStateStore(null);
+    jest.restoreAllMocks();
+  });
+
+  const sendTo = (channelName: string) =>
+    queue.send({
+      webhookUrl: `https://example.com/${channelName}`,
+      payload: {},
+      description: `post to ${channelName}`,
+      channelName,
+      deliveryKey: DeliveryRecords.deliveryKey(post.id),
+    });
+  const failWith = (status: number) =>
+    posted.mockRejectedValueOnce(
+      new AxiosError("Request failed", "ERR", undefined, undefined, {
+        status,
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+      } as AxiosResponse)
+    );
+  const isTracked = () =>
+    SentQuestionsTracker.getInstance()
+      .getAllTrackedQuestions()
+      .some((question) => question.id === post.id);
+
+  it("records each channel's outcome of a post", async () => {
+    records.begin(post);
+    failWith(500);
+    failWith(400);
+
+    await sendTo("A");
+    await sendTo("B");
+    await sendTo("C");
+
+    expect(records.getResult(post.id, ["A", "B", "C", "D"])).toEqual({
+      questionId: post.id,
+      delivered: ["C"],
+      retrying: ["A"],
+      failed: ["B"],
+    });
+    expect(records.getRecord(post.id)?.channels.A).toMatchObject({
+      status: "retrying",
+      attempts: 1,
+      lastError: "Request failed",
+    });
+  });
+
+  it("updates a record from later retries", async () => {
+    records.begin(post);
+    failWith(500);
+    await sendTo("A");
+
+    await queue.processDue(new Date(Date.now() + 24 * 60 * 60 * 1000));
+
+    expect(records.getRecord(post.id)?.channels.A).toMatchObject({
+      status: "delivered",
+      attempts: 2,
+      lastError: undefined,
+    });
+  });
+
+  it("tracks the question as sent on the first delivery to any channel", async () => {
+    records.begin(post);
+    failWith(500);
+
+    await sendTo("A");
+    expect(isTracked()).toBe(false);
+
+    await sendTo("B");
+    expect(isTracked()).toBe(true);
+  });
+
+  it("treats delivered and retrying channels as handled, failed ones not", async () => {
+    records.begin(post);
+    failWith(500);
+    failWith(400);
+    await sendTo("A");
+    await sendTo("B");
+    await sendTo("C");
+
+    expect(records.isHandled(post.id, "A")).toBe(true);
+    expect(records.isHandled(post.id, "B")).toBe(false);
+    expect(records.isHandled(post.id, "C")).toBe(true);
+    expect(records.isHandled(post.id, "D")).toBe(false);
+  });
+
+  it("ignores messages that do not carry a post card", async () => {
+    records.begin(post);
+    await queue.send({
+      webhookUrl: "https://example.com/A",
+      payload: {},
+      description: "reminder",
+      channelName: "A",
+    });
+
+    expect(records.getRecord(post.id)?.channels).toEqual({});
+  });
+
+  it("keeps records across restarts and drops them after a week", async () => {
+    records.begin(post);
+    await sendTo("A");
+
+    DeliveryRecords.resetInstance();
+    const restarted = DeliveryRecords.getInstance();
+    expect(restarted.isHandled(post.id, "A")).toBe(true);
+
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(Date.now() + 8 * 24 * 60 * 60 * 1000);
+    restarted.cleanupOldRecords();
+    expect(restarted.getRecord(post.id)).toBeUndefined();
+  });
+});
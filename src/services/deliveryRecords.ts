@@ -0,0 +1,212 @@
+import { AnswerPost } from "../types/answers";
+import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
+import {
+  DeliveryOutcome,
+  OutboundMessage,
+  OutboundQueue,
+} from "./outboundQueue";
+import { SentQuestionsTracker } from "./sentQuestionsTracker";
+
+export type ChannelDeliveryStatus = "delivered" | "retrying" | "failed";
+
+export interface ChannelDelivery {
+  channelName: string;
+  status: ChannelDeliveryStatus;
+  outboundId: string;
+  attempts: number;
+  firstAttemptAt: string;
+  lastAttemptAt: string;
+  deliveredAt?: string;
+  lastError?: string;
+}
+
+export interface PostDeliveryRecord {
+  questionId: string;
+  title: string;
+  createdAt: string;
+  channels: Record<string, ChannelDelivery>;
+}
+
+/**
+ * Outcome of sending one post, by channel name
+ */
+export interface PostDeliveryResult {
+  questionId: string;
+  delivered: string[];
+  retrying: string[];
+  failed: string[];
+  held: string[];
+  // Channels skipped because an earlier send already reached or is retrying them
+  skipped: string[];
+}
+
+const STATE_KEY = "deliveryRecords.posts";
+const KEY_PREFIX = "post:";
+const RECORD_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const STATUS_BY_OUTCOME: Record<DeliveryOutcome, ChannelDeliveryStatus> = {
+  sent: "delivered",
+  queued: "retrying",
+  dead: "failed",
+};
+
+/**
+ * Per-channel delivery records for post cards. Records are updated from
+ * every attempt of the outbound queue, including later retries, and a
+ * question is tracked as sent as soon as any channel received its card.
+ */
+export class DeliveryRecords {
+  private static instance: DeliveryRecords | null = null;
+  private records: Map<string, PostDeliveryRecord>;
+  private store: StateStore;
+
+  private constructor(store: StateStore, outboundQueue: OutboundQueue) {
+    // Private constructor for singleton pattern
+    this.store = store;
+    this.records = new Map(
+      Object.entries(
+        this.store.get<Record<string, PostDeliveryRecord>>(STATE_KEY) || {}
+      )
+    );
+    outboundQueue.onAttempt((message, outcome) =>
+      this.recordAttempt(message, outcome)
+    );
+  }
+
+  /**
+   * Get the singleton instance of DeliveryRecords
+   */
+  static getInstance(): DeliveryRecords {
+    if (!DeliveryRecords.instance) {
+      DeliveryRecords.instance = new DeliveryRecords(
+        getStateStore(),
+        OutboundQueue.getInstance()
+      );
+    }
+    return DeliveryRecords.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  static resetInstance(): void {
+    DeliveryRecords.instance = null;
+  }
+
+  private save(): void {
+    this.store.set(STATE_KEY, Object.fromEntries(this.records));
+  }
+
+  /**
+   * Key that marks outbound messages carrying a post card
+   */
+  static deliveryKey(questionId: string): string {
+    return `${KEY_PREFIX}${questionId}`;
+  }
+
+  /**
+   * Start a record for a post that is about to be sent
+   */
+  begin(post: AnswerPost): void {
+    if (!this.records.has(post.id)) {
+      this.records.set(post.id, {
+        questionId: post.id,
+        title: post.title,
+        createdAt: new Date().toISOString(),
+        channels: {},
+      });
+      this.save();
+    }
+  }
+
+  /**
+   * Whether a channel already received a post, or is still retrying it
+   */
+  isHandled(questionId: string, channelName: string): boolean {
+    const delivery = this.records.get(questionId)?.channels[channelName];
+    return !!delivery && delivery.status !== "failed";
+  }
+
+  private recordAttempt(
+    message: OutboundMessage,
+    outcome: DeliveryOutcome
+  ): void {
+    if (!message.deliveryKey?.startsWith(KEY_PREFIX) || !message.channelName) {
+      return;
+    }
+
+    const questionId = message.deliveryKey.slice(KEY_PREFIX.length);
+    const record = this.records.get(questionId);
+    if (!record) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const previous = record.channels[message.channelName];
+    const delivery: ChannelDelivery = {
+      channelName: message.channelName,
+      status: STATUS_BY_OUTCOME[outcome],
+      outboundId: message.id,
+      attempts: (previous?.attempts ?? 0) + 1,
+      firstAttemptAt: previous?.firstAttemptAt ?? now,
+      lastAttemptAt: now,
+      deliveredAt: outcome === "sent" ? now : undefined,
+      lastError: outcome === "sent" ? undefined : message.lastError,
+    };
+    record.channels[message.channelName] = delivery;
+    this.save();
+
+    if (outcome === "sent") {
+      // A card in any channel is enough for the reaction duplicate check
+      SentQuestionsTracker.getInstance().trackSentQuestion({
+        id: record.questionId,
+        title: record.title,
+      });
+    }
+  }
+
+  /**
+   * Summarize the delivery state of a post for the given channels
+   */
+  getResult(
+    questionId: string,
+    channelNames: string[]
+  ): Omit<PostDeliveryResult, "held" | "skipped"> {
+    const channels = this.records.get(questionId)?.channels || {};
+    const byStatus = (status: ChannelDeliveryStatus) =>
+      channelNames.filter((name) => channels[name]?.status === status);
+
+    return {
+      questionId,
+      delivered: byStatus("delivered"),
+      retrying: byStatus("retrying"),
+      failed: byStatus("failed"),
+    };
+  }
+
+  /**
+   * Get the delivery record of a post
+   */
+  getRecord(questionId: string): PostDeliveryRecord | undefined {
+    return this.records.get(questionId);
+  }
+
+  /**
+   * Drop records older than a week
+   */
+  cleanupOldRecords(): void {
+    const cutoff = Date.now() - RECORD_RETENTION_MS;
+    let removed = 0;
+    for (const [questionId, record] of this.records) {
+      if (new Date(record.createdAt).getTime() < cutoff) {
+        this.records.delete(questionId);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.save();
+      logger.info(`🧹 Cleaned up ${removed} old delivery record(s)`);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { AnswerPost } from "../types/answers";
+import { ChannelMapping } from "../config/config";
+import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
+import { isWithinWindow } from "../utils/schedule";
+import { TeamsUser } from "./userDirectory";
+
+export type HeldMessage =
+  | {
+      kind: "post";
+      channelName: string;
+      heldAt: string;
+      post: AnswerPost;
+    }
+  | {
+      kind: "reply";
+      channelName: string;
+      heldAt: string;
+      messageId: string;
+      teamId: string;
+      channelId: string;
+      url: string;
+      text: string;
+      mentions?: TeamsUser[];
+    }
+  | {
+      // Question update for a channel whose notifier is not Teams
+      kind: "update";
+      channelName: string;
+      heldAt: string;
+      post: AnswerPost;
+      url: string;
+      text: string;
+    };
+
+const STATE_KEY = "deliveryWindows.held";
+
+/**
+ * Holds messages for channels outside their delivery window (quiet hours)
+ * until the window opens again
+ */
+export class DeliveryWindowService {
+  private static instance: DeliveryWindowService | null = null;
+  private held: HeldMessage[];
+  private store: StateStore;
+
+  private constructor(store: StateStore) {
+    // Private constructor for singleton pattern
+    this.store = store;
+    this.held = this.store.get<HeldMessage[]>(STATE_KEY) || [];
+  }
+
+  /**
+   * Get the singleton instance of DeliveryWindowService
+   */
+  static getInstance(): DeliveryWindowService {
+    if (!DeliveryWindowService.instance) {
+      DeliveryWindowService.instance = new DeliveryWindowService(
+        getStateStore()
+      );
+    }
+    return DeliveryWindowService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  static resetInstance(): void {
+    DeliveryWindowService.instance = null;
+  }
+
+  private save(): void {
+    this.store.set(STATE_KEY, this.held);
+  }
+
+  /**
+   * Whether a channel accepts messages right now
+   */
+  isOpen(channel: ChannelMapping, now: Date = new Date()): boolean {
+    const window = channel.deliveryWindow;
+    if (!window) {
+      return true;
+    }
+    return isWithinWindow(
+      now,
+      window.start,
+      window.end,
+      window.days,
+      channel.timezone
+    );
+  }
+
+  /**
+   * Whether a post should be delivered to a channel now, either because
+   * the window is open or because one of its tags is urgent
+   */
+  shouldDeliver(
+    channel: ChannelMapping,
+    post?: AnswerPost,
+    now: Date = new Date()
+  ): boolean {
+    if (this.isOpen(channel, now)) {
+      return true;
+    }
+    const urgentTags = channel.urgentTags || [];
+    return (
+      !!post && post.tags.some((tag) => urgentTags.includes(tag.slug_name))
+    );
+  }
+
+  /**
+   * Hold a message until the channel's window opens
+   */
+  hold(message: HeldMessage): void {
+    this.held.push(message);
+    this.save();
+    logger.info(
+      `🌙 Holding ${message.kind} for ${message.channelName} until its delivery window opens`
+    );
+  }
+
+  /**
+   * Remove and return every held message whose channel window is open now
+   */
+  takeReleasable(
+    channels: ChannelMapping[],
+    now: Date = new Date()
+  ): Array<{ channel: ChannelMapping; message: HeldMessage }> {
+    const released: Array<{ channel: ChannelMapping; message: HeldMessage }> =
+      [];
+    const remaining: HeldMessage[] = [];
+
+    for (const message of this.held) {
+      const channel = channels.find(
+        (candidate) => candidate.channelName === message.channelName
+      );
+
+      if (!channel) {
+        logger.warn(
+          `⚠️ Dropping held ${message.kind} for unknown channel ${message.channelName}`
+        );
+      } else if (this.isOpen(channel, now)) {
+        released.push({ channel, message });
+      } else {
+        remaining.push(message);
+      }
+    }
+
+    if (remaining.length !== this.held.length) {
+      this.held = remaining;
+      this.save();
+    }
+    return released;
+  }
+
+  /**
+   * Get the number of held messages
+   */
+  getHeldCount(): number {
+    return this.held.length;
+  }
+}
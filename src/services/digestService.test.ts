@@ -0,0 +1,76 @@
+import { ChannelMapping } from "../config/config";
+import { AnswerPost } from "../types/answers";
+import { AnswersApiService } from "./answersApi";
+import { DigestService } from "./digestService";
+import logger from "./logger";
+import { MemoryStateStore } from "./stateStore";
+import { TeamsService } from "./teamsService";
+
+const at = (iso: string) => new Date(iso);
+
+describe("DigestService", () => {
+  const channel: ChannelMapping = {
+    tags: [],
+    webhookUrl: "https://example.com",
+    channelName: "Digest",
+    timezone: "UTC",
+    digest: { mode: "daily", time: "09:00" },
+  };
+  let store: MemoryStateStore;
+  let sendDigestToChannel: jest.Mock;
+  let service: DigestService;
+
+  beforeEach(() => {
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    store = new MemoryStateStore();
+    sendDigestToChannel = jest.fn(async () => undefined);
+
+    const answersApi = {
+      async *iterateQuestions() {
+        yield {
+          id: "q1",
+          title: "Question q1",
+          created_at: at("2024-05-15T12:00:00Z").getTime() / 1000,
+          answer_count: 0,
+          tags: [],
+        } as unknown as AnswerPost;
+      },
+    } as unknown as AnswersApiService;
+    const teamsService = {
+      getAllChannels: () => [channel],
+      findChannelsForPost: () => [channel],
+      sendDigestToChannel,
+    } as unknown as TeamsService;
+    service = new DigestService(answersApi, teamsService, store);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("waits for the next scheduled time before the first digest", async () => {
+    await service.sendDueDigests(at("2024-05-15T10:00:00Z"));
+    expect(sendDigestToChannel).not.toHaveBeenCalled();
+    expect(store.get("digestService.lastDigestAt")).toEqual({
+      Digest: at("2024-05-15T09:00:00Z").getTime(),
+    });
+
+    await service.sendDueDigests(at("2024-05-15T20:00:00Z"));
+    expect(sendDigestToChannel).not.toHaveBeenCalled();
+
+    await service.sendDueDigests(at("2024-05-16T09:00:00Z"));
+    expect(sendDigestToChannel).toHaveBeenCalledTimes(1);
+    const [, , sections] = sendDigestToChannel.mock.calls[0];
+    expect(sections[0].posts.map((post: AnswerPost) => post.id)).toEqual([
+      "q1",
+    ]);
+  });
+
+  it("sends each scheduled digest once", async () => {
+    await service.sendDueDigests(at("2024-05-15T10:00:00Z"));
+    await service.sendDueDigests(at("2024-05-16T09:30:00Z"));
+    await service.sendDueDigests(at("2024-05-16T10:00:00Z"));
+
+    expect(sendDigestToChannel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { AnswerPost } from "../types/answers";
+import { ChannelMapping } from "../config/config";
+import { AnswersApiService } from "./answersApi";
+import { DigestSection } from "./notifier";
+import { isDigestChannel, TeamsService } from "./teamsService";
+import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
+import { collect } from "../utils/pagination";
+import { formatMessage } from "../utils/messageTemplates";
+import { getMostRecentOccurrence } from "../utils/schedule";
+
+const STATE_KEY = "digestService.lastDigestAt";
+
+export class DigestService {
+  private answersApi: AnswersApiService;
+  private teamsService: TeamsService;
+  // Unix ms of the last digest sent, keyed by channel name
+  private lastDigestAt: Record<string, number>;
+  private store: StateStore;
+
+  constructor(
+    answersApi: AnswersApiService,
+    teamsService: TeamsService,
+    store: StateStore = getStateStore()
+  ) {
+    this.answersApi = answersApi;
+    this.teamsService = teamsService;
+    this.store = store;
+    this.lastDigestAt = this.store.get<Record<string, number>>(STATE_KEY) || {};
+  }
+
+  /**
+   * Get all channels configured for daily or weekly digests
+   */
+  private getDigestChannels(): ChannelMapping[] {
+    return this.teamsService.getAllChannels().filter(isDigestChannel);
+  }
+
+  /**
+   * Send every digest whose scheduled time has passed since it was last sent
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<void> {
+    // A new digest channel starts at its latest scheduled time, so its first
+    // digest goes out at the next one rather than right away
+    let started = false;
+    for (const channel of this.getDigestChannels()) {
+      if (this.lastDigestAt[channel.channelName] === undefined) {
+        this.lastDigestAt[channel.channelName] = this.getMostRecentTime(
+          channel,
+          now
+        ).getTime();
+        started = true;
+      }
+    }
+    if (started) {
+      this.store.set(STATE_KEY, this.lastDigestAt);
+    }
+
+    const dueChannels = this.getDigestChannels().filter(
+      (channel) => this.getScheduledTime(channel, now) !== null
+    );
+    if (dueChannels.length === 0) {
+      return;
+    }
+
+    // One fetch of recent questions serves every due digest
+    const posts = await collect(this.answersApi.iterateQuestions());
+
+    for (const channel of dueChannels) {
+      const scheduledTime = this.getScheduledTime(channel, now)!;
+      try {
+        await this.sendDigest(channel, posts);
+        this.lastDigestAt[channel.channelName] = scheduledTime.getTime();
+        this.store.set(STATE_KEY, this.lastDigestAt);
+      } catch (error) {
+        logger.error(
+          `❌ Failed to send digest to ${channel.channelName}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the latest scheduled time of a channel's digest at or before `now`
+   */
+  private getMostRecentTime(channel: ChannelMapping, now: Date): Date {
+    const digest = channel.digest!;
+    return getMostRecentOccurrence(
+      now,
+      digest.time || "09:00",
+      digest.mode === "weekly" ? (digest.dayOfWeek ?? 1) : undefined,
+      channel.timezone
+    );
+  }
+
+  /**
+   * Get the scheduled time of the digest that is due now, or null if the
+   * channel's latest digest was already sent
+   */
+  private getScheduledTime(channel: ChannelMapping, now: Date): Date | null {
+    const scheduledTime = this.getMostRecentTime(channel, now);
+    const lastSent = this.lastDigestAt[channel.channelName];
+    return lastSent < scheduledTime.getTime() ? scheduledTime : null;
+  }
+
+  private async sendDigest(
+    channel: ChannelMapping,
+    allPosts: AnswerPost[]
+  ): Promise<void> {
+    const digest = channel.digest!;
+    const sinceSeconds = Math.floor(
+      this.lastDigestAt[channel.channelName] / 1000
+    );
+
+    const posts = allPosts.filter(
+      (post) =>
+        !post.tags.some((tag) => tag.slug_name === "from_teams") &&
+        this.teamsService
+          .findChannelsForPost(post)
+          .some((match) => match.channelName === channel.channelName)
+    );
+
+    const sections: DigestSection[] = [
+      {
+        heading: formatMessage("digestNewQuestions", {}, channel),
+        posts: posts.filter((post) => post.created_at >= sinceSeconds),
+      },
+      {
+        heading: formatMessage("digestNewlyAnswered", {}, channel),
+        posts: posts.filter(
+          (post) =>
+            post.answer_count > 0 &&
+            post.operated_at >= sinceSeconds &&
+            post.created_at < sinceSeconds
+        ),
+      },
+      {
+        heading: formatMessage("digestUnanswered", {}, channel),
+        posts: posts.filter(
+          (post) => post.answer_count === 0 && post.created_at < sinceSeconds
+        ),
+      },
+    ];
+
+    await this.teamsService.sendDigestToChannel(
+      channel,
+      formatMessage(
+        digest.mode === "weekly" ? "weeklyDigest" : "dailyDigest",
+        { channel: channel.channelName },
+        channel
+      ),
+      sections
+    );
+  }
+}
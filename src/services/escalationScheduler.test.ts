@@ -0,0 +1,110 @@
+import { ChannelMapping, config } from "../config/config";
+import { AnswerPost } from "../types/answers";
+import { PostDeliveryRecord } from "./deliveryRecords";
+import { EscalationScheduler } from "./escalationScheduler";
+import logger from "./logger";
+import { MemoryStateStore } from "./stateStore";
+import { TeamsService } from "./teamsService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function post(id: string, createdAt: number): AnswerPost {
+  return {
+    id,
+    title: `Question ${id}`,
+    created_at: createdAt / 1000,
+    answer_count: 0,
+    tags: [],
+  } as unknown as AnswerPost;
+}
+
+describe("EscalationScheduler", () => {
+  const channel: ChannelMapping = {
+    tags: [],
+    webhookUrl: "https://example.com",
+    channelName: "Support",
+    escalation: { afterHours: 24, maxReminders: 2 },
+  };
+  const { channels } = config.teams;
+  const start = Date.UTC(2024, 4, 15);
+  let now: number;
+  let records: Record<string, PostDeliveryRecord>;
+  let sendReminderToChannel: jest.Mock;
+  let scheduler: EscalationScheduler;
+
+  beforeEach(() => {
+    config.teams.channels = [channel];
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    now = start;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    records = {};
+    sendReminderToChannel = jest.fn(async () => true);
+
+    const teamsService = {
+      findChannelsForPost: () => [channel],
+      getDeliveryRecords: () => ({
+        getRecord: (questionId: string) => records[questionId],
+      }),
+      sendReminderToChannel,
+    } as unknown as TeamsService;
+    scheduler = new EscalationScheduler(teamsService, new MemoryStateStore());
+  });
+
+  afterEach(() => {
+    config.teams.channels = channels;
+    jest.restoreAllMocks();
+  });
+
+  const reminded = () =>
+    sendReminderToChannel.mock.calls.map(([, reminder]) => reminder.id);
+
+  function delivered(questionId: string): void {
+    records[questionId] = {
+      questionId,
+      title: `Question ${questionId}`,
+      createdAt: new Date(start).toISOString(),
+      channels: {
+        Support: {
+          channelName: "Support",
+          status: "delivered",
+          outboundId: "m1",
+          attempts: 1,
+          firstAttemptAt: new Date(start).toISOString(),
+          lastAttemptAt: new Date(start).toISOString(),
+        },
+      },
+    };
+  }
+
+  it("does not remind about old questions the channel never received", async () => {
+    await scheduler.checkUnansweredQuestions(
+      [post("old", start - 30 * 24 * HOUR_MS)],
+      true
+    );
+
+    expect(reminded()).toEqual([]);
+  });
+
+  it("reminds about old questions that were delivered to the channel", async () => {
+    delivered("old");
+    await scheduler.checkUnansweredQuestions(
+      [post("old", start - 30 * 24 * HOUR_MS)],
+      true
+    );
+
+    expect(reminded()).toEqual(["old"]);
+  });
+
+  it("reminds about questions created after escalation was enabled", async () => {
+    await scheduler.checkUnansweredQuestions([], true);
+    const fresh = post("new", start + HOUR_MS);
+
+    now = start + 2 * HOUR_MS;
+    await scheduler.checkUnansweredQuestions([fresh], true);
+    expect(reminded()).toEqual([]);
+
+    now = start + 25 * HOUR_MS;
+    await scheduler.checkUnansweredQuestions([fresh], true);
+    expect(reminded()).toEqual(["new"]);
+  });
+});
@@ -0,0 +1,189 @@
+import { AnswerPost } from "../types/answers";
+import { ChannelMapping, config } from "../config/config";
+import { TeamsService } from "./teamsService";
+import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
+
+interface ReminderState {
+  questionId: string;
+  channelName: string;
+  reminders: number;
+  lastRemindedAt: number;
+  escalated: boolean;
+}
+
+const STATE_KEY = "escalationScheduler.reminders";
+const ENABLED_KEY = "escalationScheduler.enabledAt";
+const HOUR_MS = 60 * 60 * 1000;
+
+export class EscalationScheduler {
+  private teamsService: TeamsService;
+  // Keyed by `${questionId}:${channelName}`
+  private reminders: Map<string, ReminderState> = new Map();
+  // When escalation was first seen enabled, by channel name
+  private enabledAt: Record<string, number>;
+  private store: StateStore;
+
+  constructor(teamsService: TeamsService, store: StateStore = getStateStore()) {
+    this.teamsService = teamsService;
+    this.store = store;
+
+    const persisted = this.store.get<ReminderState[]>(STATE_KEY) || [];
+    for (const state of persisted) {
+      this.reminders.set(`${state.questionId}:${state.channelName}`, state);
+    }
+    this.enabledAt = this.store.get<Record<string, number>>(ENABLED_KEY) || {};
+  }
+
+  private save(): void {
+    this.store.set(STATE_KEY, Array.from(this.reminders.values()));
+  }
+
+  /**
+   * Re-post unanswered questions to their channels once they are older than
+   * the channel's escalation threshold. `complete` tells whether `posts` is
+   * the whole unanswered list; only then are questions missing from it
+   * known to be answered (or deleted).
+   */
+  async checkUnansweredQuestions(
+    posts: AnswerPost[],
+    complete: boolean
+  ): Promise<void> {
+    const now = Date.now();
+    const unansweredIds = new Set<string>();
+    const answeredIds = new Set<string>();
+    let sent = 0;
+
+    let enabledChanged = false;
+    for (const channel of config.teams.channels) {
+      if (channel.escalation && !(channel.channelName in this.enabledAt)) {
+        this.enabledAt[channel.channelName] = now;
+        enabledChanged = true;
+      }
+    }
+    if (enabledChanged) {
+      this.store.set(ENABLED_KEY, this.enabledAt);
+    }
+
+    for (const post of posts) {
+      if (post.answer_count > 0) {
+        answeredIds.add(post.id);
+        continue;
+      }
+      unansweredIds.add(post.id);
+
+      // Questions created from Teams were never posted as channel cards
+      if (post.tags.some((tag) => tag.slug_name === "from_teams")) {
+        continue;
+      }
+
+      for (const channel of this.teamsService.findChannelsForPost(post)) {
+        if (!channel.escalation || !this.wasPostedTo(post, channel, now)) {
+          continue;
+        }
+
+        try {
+          if (await this.remindIfDue(post, channel, now)) {
+            sent++;
+          }
+        } catch (error) {
+          logger.error(
+            `❌ Failed to send reminder for "${post.title}" to ${channel.channelName}:`,
+            error
+          );
+        }
+      }
+    }
+
+    // Forget questions that have been answered
+    let changed = false;
+    for (const [key, state] of this.reminders.entries()) {
+      if (
+        answeredIds.has(state.questionId) ||
+        (complete && !unansweredIds.has(state.questionId))
+      ) {
+        this.reminders.delete(key);
+        changed = true;
+      }
+    }
+
+    if (sent > 0 || changed) {
+      this.save();
+    }
+    if (sent > 0) {
+      logger.info(`⏰ Sent ${sent} unanswered-question reminder(s)`);
+    }
+  }
+
+  /**
+   * Whether a question reached a channel, so reminding it there makes sense:
+   * it was delivered there, or created after escalation was enabled for the
+   * channel and so went through the normal routing since
+   */
+  private wasPostedTo(
+    post: AnswerPost,
+    channel: ChannelMapping,
+    now: number
+  ): boolean {
+    const delivery = this.teamsService.getDeliveryRecords().getRecord(post.id)
+      ?.channels[channel.channelName];
+    return (
+      this.reminders.has(`${post.id}:${channel.channelName}`) ||
+      delivery?.status === "delivered" ||
+      post.created_at * 1000 >= (this.enabledAt[channel.channelName] ?? now)
+    );
+  }
+
+  /**
+   * Send the next reminder (or the escalation) for a question if it is due
+   */
+  private async remindIfDue(
+    post: AnswerPost,
+    channel: ChannelMapping,
+    now: number
+  ): Promise<boolean> {
+    const settings = channel.escalation!;
+    const key = `${post.id}:${channel.channelName}`;
+    const state = this.reminders.get(key) || {
+      questionId: post.id,
+      channelName: channel.channelName,
+      reminders: 0,
+      lastRemindedAt: 0,
+      escalated: false,
+    };
+
+    const ageMs = now - post.created_at * 1000;
+    const repeatMs =
+      (settings.repeatEveryHours ?? settings.afterHours) * HOUR_MS;
+    const isDue =
+      ageMs >= settings.afterHours * HOUR_MS &&
+      now - state.lastRemindedAt >= repeatMs;
+
+    if (!isDue || state.escalated) {
+      return false;
+    }
+
+    if (state.reminders < settings.maxReminders) {
+      await this.teamsService.sendReminderToChannel(
+        channel,
+        post,
+        state.reminders + 1
+      );
+      state.reminders++;
+    } else if (settings.escalateTo) {
+      await this.teamsService.sendReminderToChannel(
+        { tags: [], ...settings.escalateTo },
+        post,
+        state.reminders,
+        true
+      );
+      state.escalated = true;
+    } else {
+      return false;
+    }
+
+    state.lastRemindedAt = now;
+    this.reminders.set(key, state);
+    return true;
+  }
+}
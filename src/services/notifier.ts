@@ -0,0 +1,71 @@
+import { AnswerPost } from "../types/answers";
+import { ChannelMapping, config } from "../config/config";
+import { TeamsUser } from "./userDirectory";
+
+export interface DigestSection {
+  heading: string;
+  posts: AnswerPost[];
+}
+
+/**
+ * Something that happened on Apache Answers that channels are notified of
+ */
+export type NotificationEvent =
+  | {
+      kind: "new-question";
+      post: AnswerPost;
+      asker?: TeamsUser;
+    }
+  | {
+      kind: "reminder";
+      post: AnswerPost;
+      reminderNumber: number;
+      escalated: boolean;
+    }
+  | {
+      kind: "digest";
+      title: string;
+      sections: DigestSection[];
+    }
+  | {
+      // Answers, comments and status changes on a question the channel received
+      kind: "question-update";
+      post: AnswerPost;
+      url: string;
+      text: string;
+      mentions: TeamsUser[];
+    };
+
+/**
+ * Renders events into the webhook payload of one chat tool
+ */
+export interface Notifier {
+  render(event: NotificationEvent, channel: ChannelMapping): object;
+}
+
+/**
+ * Questions listed per digest section before "…and N more"
+ */
+export const MAX_DIGEST_POSTS_PER_SECTION = 10;
+
+/**
+ * Link to a question in Apache Answers
+ */
+export function questionUrl(questionId: string): string {
+  return `${config.answers.baseUrl}/questions/${questionId}`;
+}
+
+/**
+ * Replace Teams `<at>name</at>` mentions with plain "@name" text for chat
+ * tools that do not understand them
+ */
+export function plainMentions(text: string): string {
+  return text.replace(/<at>(.*?)<\/at>/g, "@$1");
+}
+
+/**
+ * Whole hours since a post was created
+ */
+export function hoursSince(post: AnswerPost, now: number = Date.now()): number {
+  return Math.floor((now - post.created_at * 1000) / (60 * 60 * 1000));
+}
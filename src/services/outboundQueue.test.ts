@@ -0,0 +1,182 @@
+import axios, { AxiosError, AxiosHeaders, AxiosResponse } from "axios";
+import { config } from "../config/config";
+import logger from "./logger";
+import { OutboundQueue } from "./outboundQueue";
+import { MemoryStateStore, setStateStore } from "./stateStore";
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    "ERR",
+    {
+      headers: new AxiosHeaders(),
+    },
+    undefined,
+    {
+      status,
+      headers,
+      data: "",
+      statusText: "",
+      config: { headers: new AxiosHeaders() },
+    } as AxiosResponse
+  );
+}
+
+describe("OutboundQueue", () => {
+  const { retryBaseMs, maxAttempts } = config.outbound;
+  const start = Date.UTC(2024, 4, 15, 12);
+  let store: MemoryStateStore;
+  let post: jest.SpyInstance;
+  let queue: OutboundQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: start });
+    config.outbound.retryBaseMs = 1000;
+    config.outbound.maxAttempts = 3;
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    jest.spyOn(logger, "warn").mockImplementation(() => logger);
+    jest.spyOn(logger, "error").mockImplementation(() => logger);
+    // No jitter
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    post = jest.spyOn(axios, "post").mockResolvedValue({ status: 200 });
+
+    store = new MemoryStateStore();
+    setStateStore(store);
+    OutboundQueue.resetInstance();
+    queue = OutboundQueue.getInstance();
+  });
+
+  afterEach(() => {
+    config.outbound.retryBaseMs = retryBaseMs;
+    config.outbound.maxAttempts = maxAttempts;
+    OutboundQueue.resetInstance();
+    setStateStore(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const send = () =>
+    queue.send({
+      webhookUrl: "https://example.com/hook",
+      payload: { text: "Hello" },
+      description: "test message",
+    });
+  const nextAttemptAt = () =>
+    new Date(
+      store.get<Array<{ nextAttemptAt: string }>>("outboundQueue.pending")![0]
+        .nextAttemptAt
+    ).getTime();
+
+  it("delivers right away when the webhook accepts the message", async () => {
+    expect(await send()).toBe("sent");
+    expect(queue.getStats()).toMatchObject({ pending: 0, deadLetters: 0 });
+  });
+
+  it.each([
+    ["HTTP 408", httpError(408)],
+    ["HTTP 429", httpError(429)],
+    ["HTTP 500", httpError(500)],
+    ["HTTP 503", httpError(503)],
+    ["a network error", new Error("socket hang up")],
+  ])("retries after %s with exponential backoff", async (_label, error) => {
+    post.mockRejectedValueOnce(error).mockRejectedValueOnce(error);
+
+    expect(await send()).toBe("queued");
+    expect(nextAttemptAt()).toBe(start + 1000);
+
+    // Not due yet
+    await queue.processDue(new Date(start + 999));
+    expect(post).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await queue.processDue();
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(nextAttemptAt()).toBe(start + 1000 + 2000);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    await queue.processDue();
+    expect(queue.getStats()).toMatchObject({ pending: 0, deadLetters: 0 });
+  });
+
+  it("adds up to 20% jitter to the backoff", async () => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    post.mockRejectedValueOnce(httpError(500));
+
+    await send();
+    expect(nextAttemptAt()).toBe(start + 1200);
+  });
+
+  it("waits as long as Retry-After asks, in seconds or as a date", async () => {
+    post
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "120" }))
+      .mockRejectedValueOnce(
+        httpError(503, {
+          "retry-after": new Date(start + 300_000).toUTCString(),
+        })
+      );
+
+    await send();
+    expect(nextAttemptAt()).toBe(start + 120_000);
+
+    await queue.processDue(new Date(start + 120_000));
+    expect(nextAttemptAt()).toBe(start + 300_000);
+  });
+
+  it("dead-letters errors that retrying cannot fix", async () => {
+    post.mockRejectedValueOnce(httpError(400));
+
+    expect(await send()).toBe("dead");
+    expect(queue.getStats()).toMatchObject({ pending: 0, deadLetters: 1 });
+    expect(queue.getDeadLetters()[0]).toMatchObject({
+      attempts: 1,
+      lastStatus: 400,
+    });
+  });
+
+  it("dead-letters a message once it runs out of attempts", async () => {
+    post.mockRejectedValue(httpError(500));
+
+    await send();
+    await queue.processDue(new Date(start + 60_000));
+    expect(queue.getStats()).toMatchObject({ pending: 1, deadLetters: 0 });
+
+    await queue.processDue(new Date(start + 120_000));
+    expect(queue.getStats()).toMatchObject({ pending: 0, deadLetters: 1 });
+    expect(queue.getDeadLetters()[0].attempts).toBe(3);
+  });
+
+  it("keeps queued messages and dead letters across restarts", async () => {
+    post
+      .mockRejectedValueOnce(httpError(500))
+      .mockRejectedValueOnce(httpError(404));
+    await send();
+    await send();
+
+    OutboundQueue.resetInstance();
+    const restarted = OutboundQueue.getInstance();
+    expect(restarted.getStats()).toMatchObject({ pending: 1, deadLetters: 1 });
+
+    await restarted.processDue(new Date(start + 1000));
+    expect(restarted.getStats()).toMatchObject({ pending: 0, deadLetters: 1 });
+  });
+
+  it("replays a dead letter and removes it from the list", async () => {
+    post.mockRejectedValueOnce(httpError(400));
+    await send();
+    const [{ id }] = queue.getDeadLetters();
+
+    expect(await queue.replay(id)).toBe("sent");
+    expect(queue.getStats()).toMatchObject({ pending: 0, deadLetters: 0 });
+    expect(await queue.replay(id)).toBeNull();
+  });
+
+  it("discards a dead letter for good", async () => {
+    post.mockRejectedValueOnce(httpError(400));
+    await send();
+    const [{ id }] = queue.getDeadLetters();
+
+    expect(queue.discard(id)).toBe(true);
+    expect(queue.discard(id)).toBe(false);
+    expect(queue.getDeadLetters()).toEqual([]);
+  });
+});
@@ -0,0 +1,318 @@
+import axios, { isAxiosError } from "axios";
+import https from "https";
+import { randomUUID } from "crypto";
+import { config, RateLimit } from "../config/config";
+import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
+import { RateLimiter } from "../utils/rateLimiter";
+
+export interface OutboundRequest {
+  webhookUrl: string;
+  payload: object;
+  // Human-readable summary used in logs and the admin endpoints
+  description: string;
+  channelName?: string;
+  // Lets attempt listeners tell which messages they care about
+  deliveryKey?: string;
+}
+
+export interface OutboundMessage extends OutboundRequest {
+  id: string;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  lastStatus?: number;
+}
+
+export interface DeadLetter extends OutboundMessage {
+  deadAt: string;
+}
+
+export type DeliveryOutcome = "sent" | "queued" | "dead";
+
+export type AttemptListener = (
+  message: OutboundMessage,
+  outcome: DeliveryOutcome
+) => void;
+
+const PENDING_KEY = "outboundQueue.pending";
+const DEAD_LETTER_KEY = "outboundQueue.deadLetters";
+const MAX_DEAD_LETTERS = 500;
+
+/**
+ * Rate limit of the channel using a webhook URL, or the default
+ */
+function getWebhookRateLimit(webhookUrl: string): RateLimit {
+  const channels = [...config.teams.channels, config.teams.defaultChannel];
+  const channel = channels.find(
+    (candidate) => candidate?.webhookUrl === webhookUrl && candidate.rateLimit
+  );
+  return channel?.rateLimit || config.outbound.rateLimit;
+}
+
+/**
+ * Persistent queue for outbound webhook calls. Every message is tried once
+ * right away; transient failures are retried with exponential backoff (or
+ * the delay Teams asks for in `Retry-After`) and messages that keep failing
+ * end up in a dead-letter list that can be replayed.
+ */
+export class OutboundQueue {
+  private static instance: OutboundQueue | null = null;
+  private pending: OutboundMessage[];
+  private deadLetters: DeadLetter[];
+  private inFlight: Set<string> = new Set();
+  private listeners: AttemptListener[] = [];
+  private rateLimiter: RateLimiter = new RateLimiter(getWebhookRateLimit);
+  private store: StateStore;
+
+  private constructor(store: StateStore) {
+    // Private constructor for singleton pattern
+    this.store = store;
+    this.pending = this.store.get<OutboundMessage[]>(PENDING_KEY) || [];
+    this.deadLetters = this.store.get<DeadLetter[]>(DEAD_LETTER_KEY) || [];
+  }
+
+  /**
+   * Get the singleton instance of OutboundQueue
+   */
+  static getInstance(): OutboundQueue {
+    if (!OutboundQueue.instance) {
+      OutboundQueue.instance = new OutboundQueue(getStateStore());
+    }
+    return OutboundQueue.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  static resetInstance(): void {
+    OutboundQueue.instance = null;
+  }
+
+  private save(): void {
+    this.store.set(PENDING_KEY, this.pending);
+    this.store.set(DEAD_LETTER_KEY, this.deadLetters);
+  }
+
+  /**
+   * Get notified of the outcome of every delivery attempt
+   */
+  onAttempt(listener: AttemptListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Queue a message and try to deliver it right away
+   */
+  async send(request: OutboundRequest): Promise<DeliveryOutcome> {
+    const now = new Date().toISOString();
+    const message: OutboundMessage = {
+      ...request,
+      id: randomUUID(),
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+
+    this.pending.push(message);
+    this.save();
+    return this.attempt(message);
+  }
+
+  /**
+   * Retry every queued message whose backoff has expired
+   */
+  async processDue(now: Date = new Date()): Promise<void> {
+    const due = this.pending.filter(
+      (message) =>
+        !this.inFlight.has(message.id) &&
+        new Date(message.nextAttemptAt).getTime() <= now.getTime()
+    );
+    if (due.length === 0) {
+      return;
+    }
+
+    logger.info(`📮 Retrying ${due.length} queued outbound message(s)`);
+    for (const message of due) {
+      await this.attempt(message);
+    }
+  }
+
+  private async attempt(message: OutboundMessage): Promise<DeliveryOutcome> {
+    this.inFlight.add(message.id);
+    message.attempts++;
+
+    const outcome = await this.post(message);
+    this.inFlight.delete(message.id);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(message, outcome);
+      } catch (error) {
+        logger.error("❌ Outbound attempt listener failed:", error);
+      }
+    }
+    return outcome;
+  }
+
+  private async post(message: OutboundMessage): Promise<DeliveryOutcome> {
+    // Wait in line for the webhook instead of tripping Teams throttling
+    await this.rateLimiter.acquire(message.webhookUrl);
+
+    try {
+      await axios.post(message.webhookUrl, message.payload, {
+        headers: {
+          "Content-Type": "application/json",
+        },
+        timeout: 30000,
+        httpsAgent: new https.Agent({
+          rejectUnauthorized: false,
+        }),
+      });
+
+      this.remove(message.id);
+      this.save();
+      if (message.attempts > 1) {
+        logger.info(
+          `✅ Delivered ${message.description} after ${message.attempts} attempts`
+        );
+      }
+      return "sent";
+    } catch (error) {
+      return this.handleFailure(message, error);
+    }
+  }
+
+  private handleFailure(
+    message: OutboundMessage,
+    error: unknown
+  ): DeliveryOutcome {
+    const status = isAxiosError(error) ? error.response?.status : undefined;
+    message.lastStatus = status;
+    message.lastError = error instanceof Error ? error.message : String(error);
+
+    const retryable =
+      status === undefined || status === 408 || status === 429 || status >= 500;
+
+    if (!retryable || message.attempts >= config.outbound.maxAttempts) {
+      this.remove(message.id);
+      this.deadLetters.push({ ...message, deadAt: new Date().toISOString() });
+      this.deadLetters = this.deadLetters.slice(-MAX_DEAD_LETTERS);
+      this.save();
+      logger.error(
+        `☠️ Giving up on ${message.description} after ${
+          message.attempts
+        } attempt(s)${status ? ` (HTTP ${status})` : ""}: ${message.lastError}`
+      );
+      return "dead";
+    }
+
+    const delayMs = this.getRetryDelay(message.attempts, error);
+    message.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+    this.save();
+    logger.warn(
+      `⏳ Failed to deliver ${message.description}${
+        status ? ` (HTTP ${status})` : ""
+      }, retrying in ${Math.round(delayMs / 1000)}s (attempt ${
+        message.attempts
+      }/${config.outbound.maxAttempts})`
+    );
+    return "queued";
+  }
+
+  /**
+   * Honour `Retry-After` when the webhook sends one, otherwise back off
+   * exponentially with jitter
+   */
+  private getRetryDelay(attempts: number, error: unknown): number {
+    const retryAfter = isAxiosError(error)
+      ? error.response?.headers?.["retry-after"]
+      : undefined;
+    if (retryAfter !== undefined) {
+      const seconds = Number(retryAfter);
+      const delayMs = Number.isFinite(seconds)
+        ? seconds * 1000
+        : new Date(String(retryAfter)).getTime() - Date.now();
+      if (Number.isFinite(delayMs) && delayMs >= 0) {
+        return Math.min(delayMs, config.outbound.maxRetryDelayMs);
+      }
+    }
+
+    const base = Math.min(
+      config.outbound.retryBaseMs * Math.pow(2, attempts - 1),
+      config.outbound.maxRetryDelayMs
+    );
+    return Math.round(base * (0.8 + Math.random() * 0.4));
+  }
+
+  private remove(id: string): void {
+    this.pending = this.pending.filter((message) => message.id !== id);
+  }
+
+  /**
+   * Get every message that gave up retrying, oldest first
+   */
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Move a dead letter back onto the queue and try it again right away.
+   * Returns null when no dead letter has the given ID.
+   */
+  async replay(id: string): Promise<DeliveryOutcome | null> {
+    const deadLetter = this.deadLetters.find((message) => message.id === id);
+    if (!deadLetter) {
+      return null;
+    }
+
+    this.deadLetters = this.deadLetters.filter((message) => message.id !== id);
+    const { deadAt: _deadAt, ...message } = deadLetter;
+    message.attempts = 0;
+    message.nextAttemptAt = new Date().toISOString();
+    this.pending.push(message);
+    this.save();
+
+    logger.info(`🔁 Replaying ${message.description}`);
+    return this.attempt(message);
+  }
+
+  /**
+   * Replay every dead letter
+   */
+  async replayAll(): Promise<Record<string, DeliveryOutcome>> {
+    const results: Record<string, DeliveryOutcome> = {};
+    for (const { id } of this.getDeadLetters()) {
+      const outcome = await this.replay(id);
+      if (outcome) {
+        results[id] = outcome;
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Drop a dead letter for good. Returns false when it does not exist.
+   */
+  discard(id: string): boolean {
+    const before = this.deadLetters.length;
+    this.deadLetters = this.deadLetters.filter((message) => message.id !== id);
+    if (this.deadLetters.length === before) {
+      return false;
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Get queue statistics
+   */
+  getStats(): { pending: number; deadLetters: number; rateLimited: number } {
+    return {
+      pending: this.pending.length,
+      deadLetters: this.deadLetters.length,
+      rateLimited: this.rateLimiter.getWaiting(),
+    };
+  }
+}
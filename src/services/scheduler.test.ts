@@ -0,0 +1,158 @@
+import logger from "./logger";
+import { TaskScheduler } from "./scheduler";
+
+describe("TaskScheduler", () => {
+  let scheduler: TaskScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 4, 15) });
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    jest.spyOn(logger, "error").mockImplementation(() => logger);
+    scheduler = new TaskScheduler(60_000);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("runs tasks on their interval, immediately when asked to", async () => {
+    const poll = jest.fn(async () => undefined);
+    const cleanup = jest.fn(async () => undefined);
+    scheduler.addTask({
+      name: "poll",
+      intervalMs: 1000,
+      runImmediately: true,
+      run: poll,
+    });
+    scheduler.addTask({ name: "cleanup", intervalMs: 5000, run: cleanup });
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(poll).toHaveBeenCalledTimes(1);
+    expect(cleanup).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(poll).toHaveBeenCalledTimes(6);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses two tasks with the same name", () => {
+    const task = { name: "poll", intervalMs: 1000, run: async () => {} };
+    scheduler.addTask(task);
+
+    expect(() => scheduler.addTask(task)).toThrow("already scheduled");
+  });
+
+  it("never starts a task while another one is running", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const slow = (name: string, durationMs: number) => ({
+      name,
+      intervalMs: 1000,
+      run: jest.fn(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, durationMs));
+        running--;
+      }),
+    });
+    const poll = slow("poll", 3500);
+    const digests = slow("digests", 200);
+    scheduler.addTask(poll);
+    scheduler.addTask(digests);
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(maxRunning).toBe(1);
+    // Polls start at 1s, 5.5s and 10s: a run that outlasts the interval
+    // delays the next one, and digests wait for the poll in front of them
+    expect(poll.run).toHaveBeenCalledTimes(3);
+    expect(digests.run).toHaveBeenCalledTimes(2);
+  });
+
+  it("backs off exponentially while a task keeps failing, up to the cap", async () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    const runTimes: number[] = [];
+    scheduler.addTask({
+      name: "poll",
+      intervalMs: 5000,
+      run: async () => {
+        runTimes.push(Date.now());
+        throw new Error("Answers is down");
+      },
+    });
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(
+      5000 + 10_000 + 20_000 + 40_000 + 60_000
+    );
+
+    const start = Date.UTC(2024, 4, 15);
+    expect(runTimes.map((time) => time - start)).toEqual([
+      5000, 15_000, 35_000, 75_000, 135_000,
+    ]);
+    expect(scheduler.getStatus()[0]).toMatchObject({
+      consecutiveFailures: 5,
+      lastError: "Answers is down",
+    });
+  });
+
+  it("spreads retries with up to 20% jitter", async () => {
+    const delays: number[] = [];
+    for (const random of [0, 1]) {
+      jest.spyOn(Math, "random").mockReturnValue(random);
+      const retrying = new TaskScheduler(60_000);
+      retrying.addTask({
+        name: "poll",
+        intervalMs: 5000,
+        runImmediately: true,
+        run: async () => {
+          throw new Error("Answers is down");
+        },
+      });
+      retrying.start();
+      await jest.advanceTimersByTimeAsync(0);
+      retrying.stop();
+
+      delays.push(
+        new Date(retrying.getStatus()[0].nextRunAt).getTime() - Date.now()
+      );
+    }
+
+    expect(delays).toEqual([8000, 12_000]);
+  });
+
+  it("returns to the normal interval once the task succeeds", async () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    const run = jest
+      .fn<Promise<void>, []>()
+      .mockRejectedValueOnce(new Error("Answers is down"))
+      .mockResolvedValue(undefined);
+    scheduler.addTask({ name: "poll", intervalMs: 5000, run });
+    scheduler.start();
+
+    // Fails at 5s, retried at 15s, then every 5s again
+    await jest.advanceTimersByTimeAsync(25_000);
+
+    expect(run).toHaveBeenCalledTimes(4);
+    expect(scheduler.getStatus()[0]).toMatchObject({
+      consecutiveFailures: 0,
+      lastError: null,
+    });
+  });
+
+  it("stops running tasks once stopped", async () => {
+    const run = jest.fn(async () => undefined);
+    scheduler.addTask({ name: "poll", intervalMs: 1000, run });
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    scheduler.stop();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,191 @@
+import logger from "./logger";
+
+export interface ScheduledTask {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  // Run as soon as the scheduler starts instead of after one interval
+  runImmediately?: boolean;
+}
+
+export interface TaskStatus {
+  name: string;
+  intervalMs: number;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+}
+
+interface TaskState {
+  task: ScheduledTask;
+  nextRunAt: number;
+  lastRunAt: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+}
+
+/**
+ * Runs named periodic tasks one at a time. A task is never started while
+ * another task (or a previous run of itself) is still running, and a task
+ * that keeps failing is retried with exponential backoff and jitter.
+ */
+export class TaskScheduler {
+  private tasks: Map<string, TaskState> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private isStarted: boolean = false;
+  private isTicking: boolean = false;
+  private readonly maxBackoffMs: number;
+  private readonly jitterRatio: number;
+
+  constructor(maxBackoffMs: number = 10 * 60 * 1000, jitterRatio = 0.2) {
+    this.maxBackoffMs = maxBackoffMs;
+    this.jitterRatio = jitterRatio;
+  }
+
+  /**
+   * Register a task; tasks added after start() are scheduled right away
+   */
+  addTask(task: ScheduledTask): void {
+    if (this.tasks.has(task.name)) {
+      throw new Error(`Task "${task.name}" is already scheduled`);
+    }
+
+    this.tasks.set(task.name, {
+      task,
+      nextRunAt: Date.now() + (task.runImmediately ? 0 : task.intervalMs),
+      lastRunAt: null,
+      consecutiveFailures: 0,
+      lastError: null,
+    });
+
+    if (this.isStarted) {
+      this.scheduleNextTick();
+    }
+  }
+
+  start(): void {
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+    this.scheduleNextTick();
+  }
+
+  stop(): void {
+    this.isStarted = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get the status of every scheduled task
+   */
+  getStatus(): TaskStatus[] {
+    return Array.from(this.tasks.values()).map((state) => ({
+      name: state.task.name,
+      intervalMs: state.task.intervalMs,
+      nextRunAt: new Date(state.nextRunAt).toISOString(),
+      lastRunAt: state.lastRunAt
+        ? new Date(state.lastRunAt).toISOString()
+        : null,
+      consecutiveFailures: state.consecutiveFailures,
+      lastError: state.lastError,
+    }));
+  }
+
+  /**
+   * Arm a single timer for the earliest due task
+   */
+  private scheduleNextTick(): void {
+    if (!this.isStarted || this.isTicking) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    const nextRunAt = Math.min(
+      ...Array.from(this.tasks.values()).map((state) => state.nextRunAt)
+    );
+    if (!Number.isFinite(nextRunAt)) {
+      this.timer = null;
+      return;
+    }
+
+    this.timer = setTimeout(
+      () => void this.tick(),
+      Math.max(0, nextRunAt - Date.now())
+    );
+  }
+
+  /**
+   * Run every due task in turn, then arm the timer again
+   */
+  private async tick(): Promise<void> {
+    this.timer = null;
+    this.isTicking = true;
+
+    try {
+      for (const state of this.tasks.values()) {
+        if (!this.isStarted) {
+          break;
+        }
+        if (state.nextRunAt <= Date.now()) {
+          await this.runTask(state);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+      this.scheduleNextTick();
+    }
+  }
+
+  private async runTask(state: TaskState): Promise<void> {
+    const { task } = state;
+    state.lastRunAt = Date.now();
+
+    try {
+      await task.run();
+      if (state.consecutiveFailures > 0) {
+        logger.info(
+          `✅ Task "${task.name}" recovered after ${state.consecutiveFailures} failure(s)`
+        );
+      }
+      state.consecutiveFailures = 0;
+      state.lastError = null;
+      state.nextRunAt = Date.now() + task.intervalMs;
+    } catch (error) {
+      state.consecutiveFailures++;
+      state.lastError = error instanceof Error ? error.message : String(error);
+
+      const delayMs = this.getBackoffDelay(
+        task.intervalMs,
+        state.consecutiveFailures
+      );
+      state.nextRunAt = Date.now() + delayMs;
+
+      logger.error(
+        `❌ Task "${task.name}" failed (${
+          state.consecutiveFailures
+        } in a row), retrying in ${Math.round(delayMs / 1000)}s:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Exponential backoff capped at maxBackoffMs, with random jitter so that
+   * retries do not line up
+   */
+  private getBackoffDelay(intervalMs: number, failures: number): number {
+    const base = Math.min(
+      intervalMs * Math.pow(2, failures),
+      Math.max(intervalMs, this.maxBackoffMs)
+    );
+    const jitter = base * this.jitterRatio * (Math.random() * 2 - 1);
+    return Math.round(base + jitter);
+  }
+}
@@ -1,5 +1,6 @@
 import { AnswerPost } from "../types/answers";
 import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
 
 interface SentQuestion {
   id: string;
@@ -8,13 +9,25 @@ interface SentQuestion {
   teamsMessageId?: string;
 }
 
+interface PersistedSentQuestion {
+  id: string;
+  title: string;
+  sentAt: string;
+  teamsMessageId?: string;
+}
+
+const STATE_KEY = "sentQuestionsTracker.questions";
+
 export class SentQuestionsTracker {
   private static instance: SentQuestionsTracker | null = null;
   private sentQuestions: Map<string, SentQuestion> = new Map();
   private readonly maxStoredQuestions = 100; // Keep only recent questions
+  private store: StateStore;
 
-  private constructor() {
+  private constructor(store: StateStore) {
     // Private constructor for singleton pattern
+    this.store = store;
+    this.load();
   }
 
   /**
@@ -23,7 +36,7 @@ export class SentQuestionsTracker {
   static getInstance(): SentQuestionsTracker {
     if (!SentQuestionsTracker.instance) {
       logger.info(`🆕 Creating new SentQuestionsTracker singleton instance`);
-      SentQuestionsTracker.instance = new SentQuestionsTracker();
+      SentQuestionsTracker.instance = new SentQuestionsTracker(getStateStore());
     } else {
       logger.debug(
         `♻️ Reusing existing SentQuestionsTracker singleton instance`
@@ -39,10 +52,44 @@ export class SentQuestionsTracker {
     SentQuestionsTracker.instance = null;
   }
 
+  /**
+   * Restore sent questions from the state store
+   */
+  private load(): void {
+    const persisted = this.store.get<PersistedSentQuestion[]>(STATE_KEY) || [];
+
+    for (const question of persisted) {
+      this.sentQuestions.set(question.id, {
+        ...question,
+        sentAt: new Date(question.sentAt),
+      });
+    }
+
+    if (persisted.length > 0) {
+      logger.info(`🗄️ Restored ${persisted.length} tracked sent question(s)`);
+    }
+  }
+
+  /**
+   * Write sent questions to the state store
+   */
+  private save(): void {
+    const persisted: PersistedSentQuestion[] = Array.from(
+      this.sentQuestions.values()
+    ).map((question) => ({
+      ...question,
+      sentAt: question.sentAt.toISOString(),
+    }));
+    this.store.set(STATE_KEY, persisted);
+  }
+
   /**
    * Track a question that was sent to Teams
    */
-  trackSentQuestion(post: AnswerPost, teamsMessageId?: string): void {
+  trackSentQuestion(
+    post: Pick<AnswerPost, "id" | "title">,
+    teamsMessageId?: string
+  ): void {
     logger.info(`📝 Tracking question: "${post.title}" (ID: ${post.id})`);
 
     const sentQuestion: SentQuestion = {
@@ -63,6 +110,8 @@ export class SentQuestionsTracker {
       this.sentQuestions.delete(oldestEntry[0]);
       logger.info(`🧹 Cleaned up old question: "${oldestEntry[1].title}"`);
     }
+
+    this.save();
   }
 
   /**
@@ -133,6 +182,7 @@ export class SentQuestionsTracker {
     }
 
     if (cleared > 0) {
+      this.save();
       logger.info(`🧹 Cleared ${cleared} old tracked questions`);
     }
   }
@@ -0,0 +1,108 @@
+import { ChannelMapping } from "../config/config";
+import { AnswerPost } from "../types/answers";
+import { questionUrl } from "./notifier";
+import { SlackNotifier, toSlackMarkdown } from "./slackNotifier";
+
+const post = {
+  id: "q1",
+  title: "How do I deploy?",
+  description: "It **fails** with `EACCES`",
+  created_at: 1715760000,
+  operator: { username: "alice", display_name: "Alice" },
+  tags: [{ slug_name: "ops", display_name: "ops" }],
+} as AnswerPost;
+
+const channel: ChannelMapping = {
+  tags: ["ops"],
+  webhookUrl: "https://hooks.slack.com/services/T/B/X",
+  channelName: "Ops",
+  notifier: "slack",
+};
+
+type Block = {
+  type: string;
+  text?: { text: string };
+  elements?: Array<{ text?: string; url?: string }>;
+};
+
+describe("toSlackMarkdown", () => {
+  it("converts links, bold text and mentions", () => {
+    expect(
+      toSlackMarkdown(
+        "**Solved** by <at>Alice</at>: see [the docs](https://a.example/d)"
+      )
+    ).toBe("*Solved* by @Alice: see <https://a.example/d|the docs>");
+  });
+
+  it("escapes the characters Slack treats as markup", () => {
+    expect(toSlackMarkdown("a < b && c > d")).toBe(
+      "a &lt; b &amp;&amp; c &gt; d"
+    );
+  });
+});
+
+describe("SlackNotifier", () => {
+  const notifier = new SlackNotifier();
+
+  it("renders a new question as Block Kit with a text fallback", () => {
+    const message = notifier.render(
+      { kind: "new-question", post },
+      channel
+    ) as {
+      text: string;
+      blocks: Block[];
+    };
+
+    expect(message.text).toBe("📝 How do I deploy?");
+    expect(message.blocks.map((block) => block.type)).toEqual([
+      "header",
+      "section",
+      "context",
+      "actions",
+    ]);
+    expect(message.blocks[1].text?.text).toBe("It *fails* with `EACCES`");
+    expect(message.blocks[2].elements?.[0].text).toContain("*Author:* alice");
+    expect(message.blocks[3].elements?.map((button) => button.url)).toEqual([
+      questionUrl("q1"),
+      `${questionUrl("q1")}#writeAnswer`,
+    ]);
+  });
+
+  it("renders question updates with plain @mentions", () => {
+    const message = notifier.render(
+      {
+        kind: "question-update",
+        post,
+        url: questionUrl("q1"),
+        text: "New answer added:\n\n<at>Bob</at>: Use sudo",
+        mentions: [{ upn: "bob@example.com", name: "Bob" }],
+      },
+      channel
+    ) as { text: string; blocks: Block[] };
+
+    expect(message.blocks[1].text?.text).toBe(
+      "New answer added:\n\n@Bob: Use sudo"
+    );
+    expect(message.text).not.toContain("<at>");
+  });
+
+  it("lists digest sections with their counts", () => {
+    const message = notifier.render(
+      {
+        kind: "digest",
+        title: "📰 Daily digest for Ops",
+        sections: [
+          { heading: "🆕 New questions", posts: [post] },
+          { heading: "✅ Newly answered", posts: [] },
+        ],
+      },
+      channel
+    ) as { blocks: Block[] };
+
+    const sections = message.blocks.filter((block) => block.type === "section");
+    expect(sections.map((block) => block.text?.text)).toEqual([
+      `*🆕 New questions* (1)\n• <${questionUrl("q1")}|How do I deploy?>`,
+      "*✅ Newly answered* (0)\n_None_",
+    ]);
+  });
+});
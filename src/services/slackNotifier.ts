@@ -0,0 +1,251 @@
+import { AnswerPost } from "../types/answers";
+import { ChannelMapping, config } from "../config/config";
+import { renderToText } from "../utils/teamsMarkdown";
+import {
+  formatDate,
+  formatMessage,
+  readMoreLink,
+  TemplateName,
+} from "../utils/messageTemplates";
+import {
+  hoursSince,
+  MAX_DIGEST_POSTS_PER_SECTION,
+  NotificationEvent,
+  Notifier,
+  plainMentions,
+  questionUrl,
+} from "./notifier";
+
+type SlackBlock = Record<string, unknown>;
+
+// Block Kit rejects longer texts
+const MAX_HEADER_LENGTH = 150;
+const MAX_SECTION_LENGTH = 3000;
+
+function clip(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Convert the Markdown used on Teams cards to Slack mrkdwn
+ */
+export function toSlackMarkdown(markdown: string): string {
+  return (
+    plainMentions(markdown)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      // [label](url) → <url|label>
+      .replace(/\[([^\]]*)\]\(([^)\s]+)\)/g, (_match, label, url) =>
+        label ? `<${url}|${label.replace(/\|/g, "¦")}>` : `<${url}>`
+      )
+      .replace(/\*\*(.+?)\*\*/g, "*$1*")
+  );
+}
+
+function section(markdown: string): SlackBlock {
+  return {
+    type: "section",
+    text: {
+      type: "mrkdwn",
+      text: clip(toSlackMarkdown(markdown), MAX_SECTION_LENGTH),
+    },
+  };
+}
+
+/**
+ * Context line joining the non-empty Markdown parts
+ */
+function context(parts: string[]): SlackBlock {
+  const text = toSlackMarkdown(parts.filter(Boolean).join(" · "));
+  return { type: "context", elements: [{ type: "mrkdwn", text }] };
+}
+
+function label(
+  name: TemplateName,
+  value: string,
+  channel: ChannelMapping
+): string {
+  return `**${formatMessage(name, {}, channel)}:** ${value}`;
+}
+
+function questionActions(postUrl: string, channel: ChannelMapping): SlackBlock {
+  return {
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: formatMessage("openQuestion", {}, channel),
+        },
+        url: postUrl,
+      },
+      {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: formatMessage("answerNow", {}, channel),
+        },
+        url: `${postUrl}#writeAnswer`,
+        style: "primary",
+      },
+    ],
+  };
+}
+
+function tagList(post: AnswerPost): string {
+  return post.tags.map((tag) => tag.display_name).join(", ");
+}
+
+/**
+ * Renders events as Block Kit messages for Slack incoming webhooks
+ */
+export class SlackNotifier implements Notifier {
+  render(event: NotificationEvent, channel: ChannelMapping): object {
+    switch (event.kind) {
+      case "new-question":
+        return this.renderPost(event.post, channel);
+      case "reminder":
+        return this.renderReminder(
+          event.post,
+          event.reminderNumber,
+          event.escalated,
+          channel
+        );
+      case "digest":
+        return this.renderDigest(event, channel);
+      case "question-update": {
+        const text = plainMentions(event.text);
+        return {
+          text: toSlackMarkdown(`${event.post.title}: ${text}`),
+          blocks: [
+            section(`**[${event.post.title}](${event.url})**`),
+            section(text),
+          ],
+        };
+      }
+    }
+  }
+
+  private renderPost(post: AnswerPost, channel: ChannelMapping): object {
+    const postUrl = questionUrl(post.id);
+    const excerpt = renderToText(post.description, {
+      maxLength: config.teams.excerptLength,
+      readMore: readMoreLink(postUrl, channel),
+    });
+
+    const blocks: SlackBlock[] = [
+      {
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: clip(
+            formatMessage("questionTitle", { title: post.title }, channel),
+            MAX_HEADER_LENGTH
+          ),
+          emoji: true,
+        },
+      },
+    ];
+    if (excerpt) {
+      blocks.push(section(excerpt));
+    }
+    blocks.push(
+      context([
+        label("authorLabel", post.operator.username, channel),
+        label("postedLabel", formatDate(post.created_at, channel), channel),
+        post.tags.length > 0 ? label("tagsLabel", tagList(post), channel) : "",
+      ]),
+      questionActions(postUrl, channel)
+    );
+
+    return {
+      text: toSlackMarkdown(
+        formatMessage("questionTitle", { title: post.title }, channel)
+      ),
+      blocks,
+    };
+  }
+
+  private renderReminder(
+    post: AnswerPost,
+    reminderNumber: number,
+    escalated: boolean,
+    channel: ChannelMapping
+  ): object {
+    const postUrl = questionUrl(post.id);
+    const heading = escalated
+      ? formatMessage("escalation", {}, channel)
+      : formatMessage("reminder", { number: reminderNumber }, channel);
+
+    return {
+      text: toSlackMarkdown(`${heading}: ${post.title}`),
+      blocks: [
+        section(`**${heading}**\n**[${post.title}](${postUrl})**`),
+        context([
+          label("authorLabel", post.operator.username, channel),
+          label(
+            "unansweredLabel",
+            formatMessage(
+              "unansweredFor",
+              { hours: hoursSince(post) },
+              channel
+            ),
+            channel
+          ),
+          post.tags.length > 0
+            ? label("tagsLabel", tagList(post), channel)
+            : "",
+        ]),
+        questionActions(postUrl, channel),
+      ],
+    };
+  }
+
+  private renderDigest(
+    event: Extract<NotificationEvent, { kind: "digest" }>,
+    channel: ChannelMapping
+  ): object {
+    const blocks: SlackBlock[] = [
+      {
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: clip(event.title, MAX_HEADER_LENGTH),
+          emoji: true,
+        },
+      },
+    ];
+
+    for (const digestSection of event.sections) {
+      const lines = digestSection.posts
+        .slice(0, MAX_DIGEST_POSTS_PER_SECTION)
+        .map((post) => `• [${post.title}](${questionUrl(post.id)})`);
+      if (digestSection.posts.length > MAX_DIGEST_POSTS_PER_SECTION) {
+        lines.push(
+          `• ${formatMessage(
+            "digestMore",
+            {
+              count: digestSection.posts.length - MAX_DIGEST_POSTS_PER_SECTION,
+            },
+            channel
+          )}`
+        );
+      }
+
+      blocks.push(
+        { type: "divider" },
+        section(
+          `**${digestSection.heading}** (${digestSection.posts.length})\n${
+            lines.length > 0
+              ? lines.join("\n")
+              : formatMessage("digestNone", {}, channel)
+          }`
+        )
+      );
+    }
+
+    return { text: toSlackMarkdown(event.title), blocks };
+  }
+}
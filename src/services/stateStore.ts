@@ -0,0 +1,149 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config/config";
+import logger from "./logger";
+
+/**
+ * Key/value store used to persist integration state across restarts
+ */
+export interface StateStore {
+  get<T>(key: string): T | undefined;
+  set<T>(key: string, value: T): void;
+  delete(key: string): void;
+  // Write pending changes now; stores that persist lazily need this on shutdown
+  flush(): void;
+}
+
+/**
+ * Volatile store that keeps state in memory only (state is lost on restart)
+ */
+export class MemoryStateStore implements StateStore {
+  private data: Map<string, unknown> = new Map();
+
+  get<T>(key: string): T | undefined {
+    return this.data.get(key) as T | undefined;
+  }
+
+  set<T>(key: string, value: T): void {
+    this.data.set(key, value);
+  }
+
+  delete(key: string): void {
+    this.data.delete(key);
+  }
+
+  flush(): void {
+    // Nothing to write
+  }
+}
+
+/**
+ * Store that keeps state in a single JSON file on disk. Changes are written
+ * together once `flushDelayMs` has passed since the first unwritten one, so
+ * bursts of updates cost one write.
+ */
+export class JsonFileStateStore implements StateStore {
+  private data: Record<string, unknown> = {};
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly flushDelayMs: number = config.state.flushDelayMs
+  ) {
+    this.load();
+  }
+
+  get<T>(key: string): T | undefined {
+    return this.data[key] as T | undefined;
+  }
+
+  set<T>(key: string, value: T): void {
+    this.data[key] = value;
+    this.scheduleFlush();
+  }
+
+  delete(key: string): void {
+    if (key in this.data) {
+      delete this.data[key];
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Write pending changes to disk right away
+   */
+  flush(): void {
+    if (!this.flushTimer) {
+      return;
+    }
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.save();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => this.flush(), this.flushDelayMs);
+    // Pending writes must not keep the process alive; shutdown flushes them
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Load the state file, starting empty if it does not exist yet
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info(`🗄️ No state file found at ${this.filePath}, starting fresh`);
+      return;
+    }
+
+    try {
+      this.data = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      logger.info(`🗄️ Loaded persisted state from ${this.filePath}`);
+    } catch (error) {
+      logger.error(
+        `❌ Failed to read state file ${this.filePath}, starting fresh:`,
+        error
+      );
+      this.data = {};
+    }
+  }
+
+  /**
+   * Write the state file atomically (write to a temp file, then rename)
+   */
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.data));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      logger.error(`❌ Failed to write state file ${this.filePath}:`, error);
+    }
+  }
+}
+
+let instance: StateStore | null = null;
+
+/**
+ * Get the shared state store configured for this process
+ */
+export function getStateStore(): StateStore {
+  if (!instance) {
+    instance =
+      config.state.backend === "memory"
+        ? new MemoryStateStore()
+        : new JsonFileStateStore(config.state.filePath);
+  }
+  return instance;
+}
+
+/**
+ * Replace the shared state store (useful for testing)
+ */
+export function setStateStore(store: StateStore | null): void {
+  instance = store;
+}
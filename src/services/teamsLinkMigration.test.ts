@@ -0,0 +1,92 @@
+import { AnswerPost } from "../types/answers";
+import { AnswersApiService } from "./answersApi";
+import logger from "./logger";
+import { MemoryStateStore, setStateStore } from "./stateStore";
+import { TeamsLinkRegistry } from "./teamsLinkRegistry";
+import { migrateLegacyTeamsIdComments } from "./teamsLinkMigration";
+
+type LegacyIds = Awaited<ReturnType<AnswersApiService["findLegacyTeamsIds"]>>;
+
+describe("migrateLegacyTeamsIdComments", () => {
+  let questionIds: string[];
+  let legacyIds: Record<string, LegacyIds | Error>;
+  let findLegacyTeamsIds: jest.Mock;
+  let answersApi: AnswersApiService;
+  let registry: TeamsLinkRegistry;
+
+  beforeEach(() => {
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    jest.spyOn(logger, "warn").mockImplementation(() => logger);
+    setStateStore(new MemoryStateStore());
+    TeamsLinkRegistry.resetInstance();
+    registry = TeamsLinkRegistry.getInstance();
+
+    questionIds = ["q1", "q2", "q3"];
+    legacyIds = {
+      q1: { messageId: "m1", teamId: "t1", channelId: "c1" },
+      q2: { messageId: null, teamId: null, channelId: null },
+      q3: { messageId: "m3", teamId: "t1", channelId: "c1" },
+    };
+    findLegacyTeamsIds = jest.fn(async (questionId: string) => {
+      const ids = legacyIds[questionId];
+      if (ids instanceof Error) {
+        throw ids;
+      }
+      return ids;
+    });
+    answersApi = {
+      async *iterateQuestions() {
+        for (const id of questionIds) {
+          yield { id } as AnswerPost;
+        }
+      },
+      findLegacyTeamsIds,
+    } as unknown as AnswersApiService;
+  });
+
+  afterEach(() => {
+    TeamsLinkRegistry.resetInstance();
+    setStateStore(null);
+    jest.restoreAllMocks();
+  });
+
+  const migrate = () => migrateLegacyTeamsIdComments(answersApi, registry);
+
+  it("imports the Teams IDs found in legacy comments once", async () => {
+    expect(await migrate()).toBe(2);
+    expect(registry.getByTeamsMessage("t1", "c1", "m1")).toMatchObject({
+      questionId: "q1",
+      source: "migration",
+    });
+    expect(registry.getByQuestionId("q2")).toBeUndefined();
+    expect(registry.isLegacyMigrationDone()).toBe(true);
+
+    expect(await migrate()).toBe(0);
+    expect(findLegacyTeamsIds).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not read comments of questions that are already linked", async () => {
+    registry.link("q1", "m9", "t1", "c1", "power-automate");
+
+    expect(await migrate()).toBe(1);
+    expect(findLegacyTeamsIds).not.toHaveBeenCalledWith("q1");
+    expect(registry.getByQuestionId("q1")?.messageId).toBe("m9");
+  });
+
+  it("retries only the questions whose comments could not be read", async () => {
+    legacyIds.q3 = new Error("Request failed with status code 502");
+
+    expect(await migrate()).toBe(1);
+    expect(registry.isLegacyMigrationDone()).toBe(false);
+    expect(registry.getLegacyMigrationRetries()).toEqual(["q3"]);
+
+    legacyIds.q3 = { messageId: "m3", teamId: "t1", channelId: "c1" };
+    findLegacyTeamsIds.mockClear();
+
+    expect(await migrate()).toBe(1);
+    expect(findLegacyTeamsIds.mock.calls).toEqual([["q3"]]);
+    expect(registry.getByQuestionId("q3")?.messageId).toBe("m3");
+    expect(registry.isLegacyMigrationDone()).toBe(true);
+    expect(registry.getLegacyMigrationRetries()).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { AnswersApiService } from "./answersApi";
+import { TeamsLinkRegistry } from "./teamsLinkRegistry";
+import logger from "./logger";
+
+/**
+ * IDs of the questions to import from: the ones a previous import could not
+ * read, or the newest `maxQuestions`
+ */
+async function* questionsToImport(
+  answersApi: AnswersApiService,
+  registry: TeamsLinkRegistry,
+  maxQuestions: number
+): AsyncGenerator<string> {
+  const retries = registry.getLegacyMigrationRetries();
+  if (retries) {
+    yield* retries;
+    return;
+  }
+  for await (const post of answersApi.iterateQuestions({
+    pageSize: 100,
+    maxItems: maxQuestions,
+  })) {
+    yield post.id;
+  }
+}
+
+/**
+ * One-time import of the legacy "Teams Message ID: …" comments into the
+ * link registry. It is only marked done once every question's comments were
+ * read; questions that failed are read again on the next run.
+ */
+export async function migrateLegacyTeamsIdComments(
+  answersApi: AnswersApiService,
+  registry: TeamsLinkRegistry = TeamsLinkRegistry.getInstance(),
+  maxQuestions: number = 500
+): Promise<number> {
+  if (registry.isLegacyMigrationDone()) {
+    return 0;
+  }
+
+  logger.info(
+    `🚚 Importing legacy Teams ID comments from up to ${maxQuestions} questions...`
+  );
+
+  let imported = 0;
+  let scanned = 0;
+  const failed: string[] = [];
+
+  for await (const questionId of questionsToImport(
+    answersApi,
+    registry,
+    maxQuestions
+  )) {
+    scanned++;
+
+    if (registry.getByQuestionId(questionId)) {
+      continue;
+    }
+
+    let ids;
+    try {
+      ids = await answersApi.findLegacyTeamsIds(questionId);
+    } catch (error) {
+      logger.warn(
+        `⚠️ Could not read comments of question ${questionId}, will retry:`,
+        error
+      );
+      failed.push(questionId);
+      continue;
+    }
+    if (ids.messageId && ids.teamId && ids.channelId) {
+      registry.link(
+        questionId,
+        ids.messageId,
+        ids.teamId,
+        ids.channelId,
+        "migration"
+      );
+      imported++;
+    }
+  }
+
+  if (failed.length > 0) {
+    registry.setLegacyMigrationRetries(failed);
+    logger.warn(
+      `⚠️ Imported ${imported} Teams link(s) from ${scanned} question(s); ${failed.length} could not be read and will be retried`
+    );
+    return imported;
+  }
+
+  registry.markLegacyMigrationDone();
+  logger.info(
+    `✅ Imported ${imported} Teams link(s) from ${scanned} question(s)`
+  );
+  return imported;
+}
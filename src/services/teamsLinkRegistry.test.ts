@@ -0,0 +1,141 @@
+import { config } from "../config/config";
+import logger from "./logger";
+import { MemoryStateStore, setStateStore } from "./stateStore";
+import { TeamsLinkRegistry } from "./teamsLinkRegistry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("TeamsLinkRegistry", () => {
+  const { linkRetentionDays } = config.state;
+  let store: MemoryStateStore;
+  let registry: TeamsLinkRegistry;
+
+  beforeEach(() => {
+    config.state.linkRetentionDays = 30;
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    store = new MemoryStateStore();
+    setStateStore(store);
+    TeamsLinkRegistry.resetInstance();
+    registry = TeamsLinkRegistry.getInstance();
+  });
+
+  afterEach(() => {
+    config.state.linkRetentionDays = linkRetentionDays;
+    jest.useRealTimers();
+    TeamsLinkRegistry.resetInstance();
+    setStateStore(null);
+    jest.restoreAllMocks();
+  });
+
+  const restart = () => {
+    TeamsLinkRegistry.resetInstance();
+    return TeamsLinkRegistry.getInstance();
+  };
+
+  describe("lookups", () => {
+    it("finds a link from either side", () => {
+      registry.link("q1", "m1", "t1", "c1", "emoji");
+
+      expect(registry.getByQuestionId("q1")).toMatchObject({
+        messageId: "m1",
+        source: "emoji",
+      });
+      expect(registry.getByTeamsMessage("t1", "c1", "m1")?.questionId).toBe(
+        "q1"
+      );
+      expect(registry.getByQuestionId("q2")).toBeUndefined();
+    });
+
+    it("tells apart messages with the same ID in different channels", () => {
+      registry.link("q1", "m1", "t1", "c1", "emoji");
+      registry.link("q2", "m1", "t1", "c2", "emoji");
+
+      expect(registry.getByTeamsMessage("t1", "c1", "m1")?.questionId).toBe(
+        "q1"
+      );
+      expect(registry.getByTeamsMessage("t1", "c2", "m1")?.questionId).toBe(
+        "q2"
+      );
+      expect(registry.getByTeamsMessage("t2", "c1", "m1")).toBeUndefined();
+    });
+
+    it("replaces the previous message of a relinked question", () => {
+      registry.link("q1", "m1", "t1", "c1", "migration");
+      registry.link("q1", "m2", "t1", "c1", "power-automate");
+
+      expect(registry.getByQuestionId("q1")?.messageId).toBe("m2");
+      expect(registry.getByTeamsMessage("t1", "c1", "m1")).toBeUndefined();
+      expect(registry.getStats()).toEqual({ totalLinks: 1 });
+    });
+
+    it("restores links after a restart", () => {
+      registry.link("q1", "m1", "t1", "c1", "emoji");
+
+      const restored = restart();
+      expect(restored.getLinkedQuestionIds()).toEqual(["q1"]);
+      expect(restored.getByTeamsMessage("t1", "c1", "m1")?.questionId).toBe(
+        "q1"
+      );
+    });
+  });
+
+  describe("pruning", () => {
+    it("drops links older than the retention period when linking", () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now: now - 31 * DAY_MS });
+      registry.link("old", "m1", "t1", "c1", "emoji");
+
+      jest.setSystemTime(now);
+      registry.link("new", "m2", "t1", "c1", "emoji");
+
+      expect(registry.getLinkedQuestionIds()).toEqual(["new"]);
+      expect(registry.getByTeamsMessage("t1", "c1", "m1")).toBeUndefined();
+    });
+
+    it("drops expired links when restoring them", () => {
+      store.set("teamsLinkRegistry.links", [
+        {
+          questionId: "old",
+          messageId: "m1",
+          teamId: "t1",
+          channelId: "c1",
+          linkedAt: new Date(Date.now() - 31 * DAY_MS).toISOString(),
+          source: "emoji",
+        },
+        {
+          questionId: "recent",
+          messageId: "m2",
+          teamId: "t1",
+          channelId: "c1",
+          linkedAt: new Date(Date.now() - 29 * DAY_MS).toISOString(),
+          source: "emoji",
+        },
+      ]);
+
+      const restored = restart();
+      expect(restored.getLinkedQuestionIds()).toEqual(["recent"]);
+      expect(
+        store.get<Array<{ questionId: string }>>("teamsLinkRegistry.links")
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("reaction counts", () => {
+    it("tells new reactions from retries and keeps the count across restarts", () => {
+      const link = registry.link("q1", "m1", "t1", "c1", "emoji", 1);
+
+      expect(registry.noteReactionCount(link, 1)).toBe(false);
+      expect(registry.noteReactionCount(link, 2)).toBe(true);
+
+      const restored = restart().getByQuestionId("q1")!;
+      expect(restored.reactionCount).toBe(2);
+      expect(restart().noteReactionCount(restored, 2)).toBe(false);
+    });
+
+    it("counts the first reported count on a link as new", () => {
+      const link = registry.link("q1", "m1", "t1", "c1", "power-automate");
+
+      expect(registry.noteReactionCount(link, 3)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { config } from "../config/config";
+import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
+
+export interface TeamsMessageLink {
+  questionId: string;
+  messageId: string;
+  teamId: string;
+  channelId: string;
+  linkedAt: string;
+  source: "emoji" | "power-automate" | "migration";
+  // Highest emoji reaction count reported for the Teams message
+  reactionCount?: number;
+}
+
+const LINKS_KEY = "teamsLinkRegistry.links";
+const MIGRATED_KEY = "teamsLinkRegistry.legacyCommentsMigrated";
+const MIGRATION_RETRY_KEY = "teamsLinkRegistry.legacyCommentsRetry";
+
+/**
+ * Teams message IDs are only unique within a channel
+ */
+export function teamsMessageKey(
+  teamId: string,
+  channelId: string,
+  messageId: string
+): string {
+  return `${teamId}/${channelId}/${messageId}`;
+}
+
+export class TeamsLinkRegistry {
+  private static instance: TeamsLinkRegistry | null = null;
+  private linksByQuestionId: Map<string, TeamsMessageLink> = new Map();
+  private linksByMessage: Map<string, TeamsMessageLink> = new Map();
+  private store: StateStore;
+
+  private constructor(store: StateStore) {
+    // Private constructor for singleton pattern
+    this.store = store;
+    this.load();
+  }
+
+  /**
+   * Get the singleton instance of TeamsLinkRegistry
+   */
+  static getInstance(): TeamsLinkRegistry {
+    if (!TeamsLinkRegistry.instance) {
+      TeamsLinkRegistry.instance = new TeamsLinkRegistry(getStateStore());
+    }
+    return TeamsLinkRegistry.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  static resetInstance(): void {
+    TeamsLinkRegistry.instance = null;
+  }
+
+  /**
+   * Restore links from the state store
+   */
+  private load(): void {
+    const persisted = this.store.get<TeamsMessageLink[]>(LINKS_KEY) || [];
+    for (const link of persisted) {
+      this.index(link);
+    }
+    if (this.prune() > 0) {
+      this.save();
+    }
+
+    if (this.linksByQuestionId.size > 0) {
+      logger.info(
+        `🗄️ Restored ${this.linksByQuestionId.size} question ↔ Teams link(s)`
+      );
+    }
+  }
+
+  /**
+   * Drop links older than the retention period. Returns how many were
+   * dropped.
+   */
+  private prune(now: number = Date.now()): number {
+    const cutoff = now - config.state.linkRetentionDays * 24 * 60 * 60 * 1000;
+    let pruned = 0;
+    for (const link of Array.from(this.linksByQuestionId.values())) {
+      if (new Date(link.linkedAt).getTime() < cutoff) {
+        this.linksByQuestionId.delete(link.questionId);
+        this.linksByMessage.delete(
+          teamsMessageKey(link.teamId, link.channelId, link.messageId)
+        );
+        pruned++;
+      }
+    }
+    if (pruned > 0) {
+      logger.info(`🧹 Dropped ${pruned} expired question ↔ Teams link(s)`);
+    }
+    return pruned;
+  }
+
+  /**
+   * Write links to the state store
+   */
+  private save(): void {
+    this.store.set(LINKS_KEY, Array.from(this.linksByQuestionId.values()));
+  }
+
+  private index(link: TeamsMessageLink): void {
+    const previous = this.linksByQuestionId.get(link.questionId);
+    if (previous) {
+      this.linksByMessage.delete(
+        teamsMessageKey(previous.teamId, previous.channelId, previous.messageId)
+      );
+    }
+    this.linksByQuestionId.set(link.questionId, link);
+    this.linksByMessage.set(
+      teamsMessageKey(link.teamId, link.channelId, link.messageId),
+      link
+    );
+  }
+
+  /**
+   * Link an Apache Answers question to the Teams message it belongs to
+   */
+  link(
+    questionId: string,
+    messageId: string,
+    teamId: string,
+    channelId: string,
+    source: TeamsMessageLink["source"],
+    reactionCount?: number
+  ): TeamsMessageLink {
+    const link: TeamsMessageLink = {
+      questionId,
+      messageId,
+      teamId,
+      channelId,
+      linkedAt: new Date().toISOString(),
+      source,
+      reactionCount,
+    };
+
+    this.index(link);
+    this.prune();
+    this.save();
+
+    logger.info(
+      `🔗 Linked question ${questionId} to Teams message ${messageId} (${source})`
+    );
+    return link;
+  }
+
+  /**
+   * Record the reaction count of a linked Teams message. Returns whether it
+   * is higher than any count seen before, that is a new reaction rather
+   * than a retry of the flow.
+   */
+  noteReactionCount(link: TeamsMessageLink, reactionCount: number): boolean {
+    const previous = link.reactionCount;
+    if (previous !== undefined && reactionCount <= previous) {
+      return false;
+    }
+    link.reactionCount = reactionCount;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Get the Teams message linked to a question
+   */
+  getByQuestionId(questionId: string): TeamsMessageLink | undefined {
+    return this.linksByQuestionId.get(questionId);
+  }
+
+  /**
+   * Get the question linked to a Teams message
+   */
+  getByTeamsMessage(
+    teamId: string,
+    channelId: string,
+    messageId: string
+  ): TeamsMessageLink | undefined {
+    return this.linksByMessage.get(
+      teamsMessageKey(teamId, channelId, messageId)
+    );
+  }
+
+  /**
+   * Get all linked question IDs
+   */
+  getLinkedQuestionIds(): string[] {
+    return Array.from(this.linksByQuestionId.keys());
+  }
+
+  /**
+   * Whether the legacy "Teams Message ID" comments have been imported
+   */
+  isLegacyMigrationDone(): boolean {
+    return this.store.get<boolean>(MIGRATED_KEY) === true;
+  }
+
+  /**
+   * Record that the legacy comment import has run
+   */
+  markLegacyMigrationDone(): void {
+    this.store.set(MIGRATED_KEY, true);
+    this.store.delete(MIGRATION_RETRY_KEY);
+  }
+
+  /**
+   * Questions whose legacy comments could not be read by the last import
+   */
+  getLegacyMigrationRetries(): string[] | undefined {
+    return this.store.get<string[]>(MIGRATION_RETRY_KEY);
+  }
+
+  /**
+   * Record the questions the legacy comment import has to read again
+   */
+  setLegacyMigrationRetries(questionIds: string[]): void {
+    this.store.set(MIGRATION_RETRY_KEY, questionIds);
+  }
+
+  /**
+   * Get registry statistics
+   */
+  getStats(): { totalLinks: number } {
+    return { totalLinks: this.linksByQuestionId.size };
+  }
+}
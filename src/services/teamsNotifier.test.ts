@@ -0,0 +1,90 @@
+import { ChannelMapping } from "../config/config";
+import { AnswerPost } from "../types/answers";
+import { TeamsNotifier } from "./teamsNotifier";
+
+const post = {
+  id: "q1",
+  title: "How do I deploy?",
+  description: "It fails",
+  created_at: 1715760000,
+  operator: { username: "alice", display_name: "Alice" },
+  tags: [{ slug_name: "ops", display_name: "ops" }],
+} as AnswerPost;
+
+const alice = { upn: "alice@example.com", name: "Alice Liddell" };
+const bob = { upn: "bob@example.com", name: "Bob" };
+
+describe("TeamsNotifier mentions", () => {
+  const notifier = new TeamsNotifier();
+
+  it("@mentions the asker of a new question", () => {
+    const card = notifier.buildCard({
+      kind: "new-question",
+      post,
+      asker: alice,
+    });
+
+    expect(JSON.stringify(card.body)).toContain(
+      "Asked by <at>Alice Liddell</at>"
+    );
+    expect(card.msteams?.entities).toEqual([
+      {
+        type: "mention",
+        text: "<at>Alice Liddell</at>",
+        mentioned: { id: "alice@example.com", name: "Alice Liddell" },
+      },
+    ]);
+  });
+
+  it("keeps the block positions the flows read when there is no asker", () => {
+    const withAsker = notifier.buildCard({
+      kind: "new-question",
+      post,
+      asker: alice,
+    });
+    const withoutAsker = notifier.buildCard({ kind: "new-question", post });
+
+    expect(withoutAsker.body).toHaveLength(withAsker.body.length);
+    expect(withoutAsker.msteams?.entities).toBeUndefined();
+    expect(JSON.stringify(withoutAsker.body)).not.toContain("<at>");
+  });
+
+  it("carries each mentioned user of an update once", () => {
+    const card = notifier.buildCard({
+      kind: "question-update",
+      post,
+      url: "https://answers.example/questions/q1",
+      text: "<at>Alice Liddell</at> <at>Bob</at> answered, thanks <at>Bob</at>",
+      mentions: [alice, bob, bob],
+    });
+
+    expect(
+      card.msteams?.entities?.map((entity) => entity.mentioned.id)
+    ).toEqual(["alice@example.com", "bob@example.com"]);
+  });
+
+  it("wraps the card in the channel's payload format", () => {
+    const channel = (payloadFormat: ChannelMapping["payloadFormat"]) =>
+      ({
+        tags: [],
+        webhookUrl: "https://example.com",
+        channelName: "Ops",
+        payloadFormat,
+      }) as ChannelMapping;
+    const event = { kind: "new-question", post, asker: alice } as const;
+
+    expect(notifier.render(event, channel("legacy"))).toMatchObject({
+      type: "message",
+      attachments: [
+        {
+          contentType: "application/vnd.microsoft.card.adaptive",
+          content: { type: "AdaptiveCard" },
+        },
+      ],
+    });
+    expect(notifier.render(event, channel("adaptive-card"))).toMatchObject({
+      type: "AdaptiveCard",
+      msteams: { entities: [{ mentioned: { id: "alice@example.com" } }] },
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { AnswerPost } from "../types/answers";
+import { ChannelMapping, config, WebhookPayloadFormat } from "../config/config";
+import {
+  AdaptiveCard,
+  CardElement,
+  OpenUrlAction,
+} from "../types/adaptiveCards";
+import {
+  adaptiveCard,
+  container,
+  factSet,
+  mentionText,
+  openUrlAction,
+  textBlock,
+  toWebhookPayload,
+} from "../utils/adaptiveCardBuilder";
+import { renderToContainer } from "../utils/teamsMarkdown";
+import {
+  formatDate,
+  formatMessage,
+  readMoreLink,
+} from "../utils/messageTemplates";
+import {
+  DigestSection,
+  hoursSince,
+  MAX_DIGEST_POSTS_PER_SECTION,
+  NotificationEvent,
+  Notifier,
+  questionUrl,
+} from "./notifier";
+import { TeamsUser } from "./userDirectory";
+
+/**
+ * Renders events as Adaptive Cards for Teams webhooks
+ */
+export class TeamsNotifier implements Notifier {
+  render(event: NotificationEvent, channel: ChannelMapping): object {
+    return toWebhookPayload(
+      this.buildCard(event, channel),
+      channel.payloadFormat
+    );
+  }
+
+  /**
+   * Build the card for an event, in the channel's templates
+   */
+  buildCard(event: NotificationEvent, channel?: ChannelMapping): AdaptiveCard {
+    switch (event.kind) {
+      case "new-question":
+        return this.buildPostCard(event.post, event.asker, channel);
+      case "reminder":
+        return this.buildReminderCard(
+          event.post,
+          event.reminderNumber,
+          event.escalated,
+          channel
+        );
+      case "digest":
+        return this.buildDigestCard(event.title, event.sections, channel);
+      case "question-update":
+        return adaptiveCard(
+          [
+            textBlock(
+              formatMessage(
+                "questionTitle",
+                { title: event.post.title },
+                channel
+              ),
+              { weight: "bolder", color: "accent" }
+            ),
+            textBlock(event.text),
+          ],
+          [
+            openUrlAction(
+              formatMessage("openInAnswers", {}, channel),
+              event.url
+            ),
+          ],
+          event.mentions
+        );
+    }
+  }
+
+  /**
+   * Render a reply to a Teams message for the reply flow, which reads the
+   * first five blocks by position
+   */
+  renderThreadReply(
+    messageId: string,
+    teamId: string,
+    channelId: string,
+    url: string,
+    text: string,
+    mentions: TeamsUser[] = [],
+    payloadFormat?: WebhookPayloadFormat,
+    channel?: ChannelMapping
+  ): object {
+    const card = adaptiveCard(
+      [
+        textBlock(messageId, { isVisible: false }),
+        textBlock(teamId, { isVisible: false }),
+        textBlock(channelId, { isVisible: false }),
+        textBlock(url, { size: "small", color: "accent" }),
+        textBlock(text),
+      ],
+      [openUrlAction(formatMessage("openInAnswers", {}, channel), url)],
+      mentions
+    );
+    return toWebhookPayload(card, payloadFormat);
+  }
+
+  /**
+   * Render a reply to a Teams message identified by its message ID only
+   */
+  renderMessageReply(
+    messageId: string,
+    url: string,
+    text: string,
+    payloadFormat?: WebhookPayloadFormat
+  ): object {
+    const card = adaptiveCard(
+      [
+        textBlock(messageId, { isVisible: false }),
+        textBlock(url, { size: "small", color: "accent" }),
+        textBlock(text),
+      ],
+      [openUrlAction(formatMessage("openInAnswers"), url)]
+    );
+    return toWebhookPayload(card, payloadFormat);
+  }
+
+  private buildPostCard(
+    post: AnswerPost,
+    asker: TeamsUser | undefined,
+    channel?: ChannelMapping
+  ): AdaptiveCard {
+    const postUrl = questionUrl(post.id);
+    const tagNames = post.tags.map((tag) => tag.display_name).join(", ");
+
+    const description = renderToContainer(post.description, {
+      maxLength: config.teams.excerptLength,
+      readMore: readMoreLink(postUrl, channel),
+    });
+
+    return adaptiveCard(
+      [
+        textBlock(
+          formatMessage("questionTitle", { title: post.title }, channel),
+          {
+            weight: "bolder",
+            size: "large",
+            color: "accent",
+          }
+        ),
+        // The mention shares the description's slot to keep block positions
+        asker
+          ? container([
+              textBlock(
+                formatMessage(
+                  "askedBy",
+                  { asker: mentionText(asker) },
+                  channel
+                ),
+                { size: "small", isSubtle: true }
+              ),
+              description,
+            ])
+          : description,
+        factSet([
+          {
+            title: formatMessage("authorLabel", {}, channel),
+            value: post.operator.username,
+          },
+          {
+            title: formatMessage("postedLabel", {}, channel),
+            value: formatDate(post.created_at, channel),
+          },
+          { title: formatMessage("tagsLabel", {}, channel), value: tagNames },
+        ]),
+        // Flows read these by position, so they keep their old slots
+        textBlock(`[View Post in Apache Answers](${postUrl})`, {
+          isVisible: false,
+        }),
+        textBlock(`${post.id}`, { isVisible: false }),
+      ],
+      this.getQuestionActions(postUrl, channel),
+      asker ? [asker] : []
+    );
+  }
+
+  private buildReminderCard(
+    post: AnswerPost,
+    reminderNumber: number,
+    escalated: boolean,
+    channel?: ChannelMapping
+  ): AdaptiveCard {
+    const postUrl = questionUrl(post.id);
+    const tagNames = post.tags.map((tag) => tag.display_name).join(", ");
+
+    return adaptiveCard(
+      [
+        textBlock(
+          escalated
+            ? formatMessage("escalation", {}, channel)
+            : formatMessage("reminder", { number: reminderNumber }, channel),
+          {
+            weight: "bolder",
+            size: "medium",
+            color: escalated ? "attention" : "warning",
+          }
+        ),
+        textBlock(
+          formatMessage("questionTitle", { title: post.title }, channel),
+          {
+            weight: "bolder",
+            size: "large",
+            color: "accent",
+          }
+        ),
+        factSet([
+          {
+            title: formatMessage("authorLabel", {}, channel),
+            value: post.operator.username,
+          },
+          {
+            title: formatMessage("unansweredLabel", {}, channel),
+            value: formatMessage(
+              "unansweredFor",
+              { hours: hoursSince(post) },
+              channel
+            ),
+          },
+          { title: formatMessage("tagsLabel", {}, channel), value: tagNames },
+        ]),
+        textBlock(`[Answer in Apache Answers](${postUrl})`, {
+          isVisible: false,
+        }),
+        textBlock(`${post.id}`, { isVisible: false }),
+      ],
+      this.getQuestionActions(postUrl, channel)
+    );
+  }
+
+  private buildDigestCard(
+    title: string,
+    sections: DigestSection[],
+    channel?: ChannelMapping
+  ): AdaptiveCard {
+    const body: CardElement[] = [
+      textBlock(title, {
+        weight: "bolder",
+        size: "large",
+        color: "accent",
+      }),
+    ];
+
+    for (const section of sections) {
+      body.push(
+        textBlock(`**${section.heading}** (${section.posts.length})`, {
+          size: "medium",
+          separator: true,
+        })
+      );
+
+      const lines = section.posts
+        .slice(0, MAX_DIGEST_POSTS_PER_SECTION)
+        .map((post) => `- [${post.title}](${questionUrl(post.id)})`);
+      if (section.posts.length > MAX_DIGEST_POSTS_PER_SECTION) {
+        lines.push(
+          `- ${formatMessage(
+            "digestMore",
+            { count: section.posts.length - MAX_DIGEST_POSTS_PER_SECTION },
+            channel
+          )}`
+        );
+      }
+
+      body.push(
+        textBlock(
+          lines.length > 0
+            ? lines.join("\n")
+            : formatMessage("digestNone", {}, channel),
+          { size: "small" }
+        )
+      );
+    }
+
+    return adaptiveCard(body);
+  }
+
+  /**
+   * Buttons shown on every card about a single question
+   */
+  private getQuestionActions(
+    postUrl: string,
+    channel?: ChannelMapping
+  ): OpenUrlAction[] {
+    return [
+      openUrlAction(formatMessage("openQuestion", {}, channel), postUrl),
+      openUrlAction(
+        formatMessage("answerNow", {}, channel),
+        `${postUrl}#writeAnswer`,
+        { style: "positive" }
+      ),
+    ];
+  }
+}
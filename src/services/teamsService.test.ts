@@ -0,0 +1,206 @@
+import axios, { AxiosError, AxiosHeaders, AxiosResponse } from "axios";
+import { ChannelMapping, config } from "../config/config";
+import { AnswerPost } from "../types/answers";
+import { DeliveryRecords } from "./deliveryRecords";
+import { DeliveryWindowService } from "./deliveryWindow";
+import logger from "./logger";
+import { OutboundQueue } from "./outboundQueue";
+import { SentQuestionsTracker } from "./sentQuestionsTracker";
+import { MemoryStateStore, setStateStore } from "./stateStore";
+import { TeamsLinkRegistry } from "./teamsLinkRegistry";
+import { TeamsService } from "./teamsService";
+import { UserDirectory } from "./userDirectory";
+
+function post(id: string): AnswerPost {
+  return {
+    id,
+    title: `Question ${id}`,
+    description: "Details",
+    created_at: 1715760000,
+    answer_count: 0,
+    operator: { username: "alice", display_name: "Alice" },
+    tags: [{ slug_name: "support", display_name: "support" }],
+  } as AnswerPost;
+}
+
+function badRequest(): AxiosError {
+  return new AxiosError("Bad Request", "ERR", undefined, undefined, {
+    status: 400,
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  } as AxiosResponse);
+}
+
+function channel(name: string, settings: Partial<ChannelMapping> = {}) {
+  return {
+    tags: ["support"],
+    webhookUrl: `https://example.com/${name}`,
+    channelName: name,
+    ...settings,
+  } as ChannelMapping;
+}
+
+describe("TeamsService", () => {
+  const { channels, defaultChannel } = config.teams;
+  let posted: jest.SpyInstance;
+  let service: TeamsService;
+
+  beforeEach(() => {
+    setStateStore(new MemoryStateStore());
+    for (const singleton of [
+      SentQuestionsTracker,
+      TeamsLinkRegistry,
+      DeliveryWindowService,
+      OutboundQueue,
+      DeliveryRecords,
+      UserDirectory,
+    ]) {
+      singleton.resetInstance();
+    }
+    config.teams.defaultChannel = undefined;
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    jest.spyOn(logger, "warn").mockImplementation(() => logger);
+    jest.spyOn(logger, "error").mockImplementation(() => logger);
+    posted = jest.spyOn(axios, "post").mockResolvedValue({ status: 200 });
+
+    service = new TeamsService();
+  });
+
+  afterEach(() => {
+    config.teams.channels = channels;
+    config.teams.defaultChannel = defaultChannel;
+    setStateStore(null);
+    jest.restoreAllMocks();
+  });
+
+  const postedTo = () => posted.mock.calls.map(([url]) => url);
+  const postedTitles = () =>
+    posted.mock.calls.map(([, payload]) =>
+      ["1", "2"].find((id) =>
+        JSON.stringify(payload).includes(`Question ${id}`)
+      )
+    );
+
+  describe("sendPostToTeams", () => {
+    const isTracked = (questionId: string) =>
+      SentQuestionsTracker.getInstance()
+        .getAllTrackedQuestions()
+        .some((question) => question.id === questionId);
+
+    it("delivers to the other channels when one of them fails", async () => {
+      const [a, b, c] = ["A", "B", "C"].map((name) => channel(name));
+      config.teams.channels = [a, b, c];
+      posted.mockImplementation(async (url: string) => {
+        if (url === b.webhookUrl) {
+          throw badRequest();
+        }
+        return { status: 200 };
+      });
+
+      const result = await service.sendPostToTeams(post("1"));
+
+      expect(result).toMatchObject({
+        delivered: ["A", "C"],
+        failed: ["B"],
+        retrying: [],
+      });
+      expect(isTracked("1")).toBe(true);
+    });
+
+    it("counts a channel whose card cannot be built as failed", async () => {
+      config.teams.channels = [
+        channel("A", { notifier: "pager" as "teams" }),
+        channel("B"),
+      ];
+
+      const result = await service.sendPostToTeams(post("1"));
+
+      expect(result).toMatchObject({ delivered: ["B"], failed: ["A"] });
+      expect(postedTo()).toEqual(["https://example.com/B"]);
+    });
+
+    it("tracks the question as sent once the first channel received it", async () => {
+      config.teams.channels = [channel("A")];
+      posted.mockRejectedValueOnce(new Error("socket hang up"));
+
+      expect((await service.sendPostToTeams(post("1"))).retrying).toEqual([
+        "A",
+      ]);
+      expect(isTracked("1")).toBe(false);
+
+      await service
+        .getOutboundQueue()
+        .processDue(new Date(Date.now() + 24 * 60 * 60 * 1000));
+      expect(isTracked("1")).toBe(true);
+    });
+
+    it("never sends a card twice to the same channel, but retries failed ones", async () => {
+      config.teams.channels = [channel("A"), channel("B")];
+      posted
+        .mockResolvedValueOnce({ status: 200 })
+        .mockRejectedValueOnce(badRequest());
+      await service.sendPostToTeams(post("1"));
+
+      const result = await service.sendPostToTeams(post("1"));
+
+      expect(result).toMatchObject({ skipped: ["A"], delivered: ["B"] });
+      expect(postedTo()).toEqual([
+        "https://example.com/A",
+        "https://example.com/B",
+        "https://example.com/B",
+      ]);
+    });
+  });
+
+  describe("mentions", () => {
+    it("@mentions the asker found through the user directory", async () => {
+      config.teams.channels = [channel("A")];
+      UserDirectory.getInstance().rememberAsker("1", {
+        upn: "alice@example.com",
+        name: "Alice Liddell",
+      });
+
+      await service.sendPostToTeams(post("1"));
+
+      const [, payload] = posted.mock.calls[0];
+      expect(payload.attachments[0].content.msteams.entities).toEqual([
+        {
+          type: "mention",
+          text: "<at>Alice Liddell</at>",
+          mentioned: { id: "alice@example.com", name: "Alice Liddell" },
+        },
+      ]);
+    });
+  });
+
+  describe("releaseHeldMessages", () => {
+    it("sends held posts one card at a time, in the order they were held", async () => {
+      // A window limited to no days is always closed
+      const support = channel("Support", {
+        deliveryWindow: { start: "09:00", end: "17:00", days: [] },
+      });
+      config.teams.channels = [support];
+
+      expect((await service.sendPostToTeams(post("1"))).held).toEqual([
+        "Support",
+      ]);
+      expect((await service.sendPostToTeams(post("2"))).held).toEqual([
+        "Support",
+      ]);
+      expect(posted).not.toHaveBeenCalled();
+
+      support.deliveryWindow = undefined;
+      await service.releaseHeldMessages();
+
+      expect(postedTitles()).toEqual(["1", "2"]);
+      expect(postedTo()).toEqual([support.webhookUrl, support.webhookUrl]);
+      expect(
+        service.getDeliveryRecords().getRecord("1")?.channels.Support
+      ).toMatchObject({ status: "delivered" });
+
+      // Nothing is left to release
+      await service.releaseHeldMessages();
+      expect(posted).toHaveBeenCalledTimes(2);
+    });
+  });
+});
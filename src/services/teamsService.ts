@@ -1,172 +1,280 @@
-import axios from "axios";
-import https from "https";
 import { AnswerPost } from "../types/answers";
-import { ChannelMapping, config } from "../config/config";
+import { ChannelMapping, config, NotifierType } from "../config/config";
 import logger from "./logger";
 import { SentQuestionsTracker } from "./sentQuestionsTracker";
+import { TeamsLinkRegistry } from "./teamsLinkRegistry";
+import { DeliveryWindowService } from "./deliveryWindow";
+import { DeliveryOutcome, OutboundQueue } from "./outboundQueue";
+import { DeliveryRecords, PostDeliveryResult } from "./deliveryRecords";
+import { findMatchingRule } from "../utils/routingRules";
+import { DigestSection, NotificationEvent, Notifier } from "./notifier";
+import { TeamsNotifier } from "./teamsNotifier";
+import { SlackNotifier } from "./slackNotifier";
+import { WebhookNotifier } from "./webhookNotifier";
+import { TeamsUser, UserDirectory } from "./userDirectory";
+import { ChannelText } from "../utils/messageTemplates";
 
-interface TeamsMessage {
-  type: "message";
-  attachments: Array<{
-    contentType: "application/vnd.microsoft.card.adaptive";
-    contentUrl: null;
-    content: {
-      $schema: "http://adaptivecards.io/schemas/adaptive-card.json";
-      type: "AdaptiveCard";
-      version: "1.2";
-      body: Array<{
-        type: "TextBlock";
-        text: string;
-        weight?: "bolder" | "lighter" | "normal";
-        size?: "small" | "medium" | "large" | "extraLarge";
-        color?:
-          | "default"
-          | "dark"
-          | "light"
-          | "accent"
-          | "good"
-          | "warning"
-          | "attention";
-      }>;
-    };
-  }>;
+export interface ChannelRoute {
+  channel: ChannelMapping;
+  // Description of the rule that matched, for logs
+  rule: string;
+}
+
+/**
+ * Whether a channel receives scheduled digests instead of immediate cards
+ */
+export function isDigestChannel(channel: ChannelMapping): boolean {
+  return !!channel.digest && channel.digest.mode !== "immediate";
+}
+
+/**
+ * Whether a channel is notified through Teams
+ */
+export function isTeamsChannel(channel: ChannelMapping): boolean {
+  return (channel.notifier || "teams") === "teams";
+}
+
+/**
+ * One-line summary of a post delivery for logs
+ */
+export function describeDeliveryResult(result: PostDeliveryResult): string {
+  const parts = (
+    ["delivered", "retrying", "failed", "held", "skipped"] as const
+  )
+    .filter((key) => result[key].length > 0)
+    .map((key) => `${key}: ${result[key].join(", ")}`);
+  return parts.length > 0 ? parts.join("; ") : "no channels";
 }
 
 export class TeamsService {
   private sentQuestionsTracker: SentQuestionsTracker;
+  private linkRegistry: TeamsLinkRegistry;
+  private deliveryWindows: DeliveryWindowService;
+  private outboundQueue: OutboundQueue;
+  private deliveryRecords: DeliveryRecords;
+  private userDirectory: UserDirectory;
+  private teamsNotifier: TeamsNotifier = new TeamsNotifier();
+  private notifiers: Record<NotifierType, Notifier> = {
+    teams: this.teamsNotifier,
+    slack: new SlackNotifier(),
+    webhook: new WebhookNotifier(),
+  };
 
   constructor() {
     this.sentQuestionsTracker = SentQuestionsTracker.getInstance();
+    this.linkRegistry = TeamsLinkRegistry.getInstance();
+    this.deliveryWindows = DeliveryWindowService.getInstance();
+    this.outboundQueue = OutboundQueue.getInstance();
+    this.deliveryRecords = DeliveryRecords.getInstance();
+    this.userDirectory = UserDirectory.getInstance();
   }
 
   /**
-   * Find the appropriate channel(s) for a post based on its tags
+   * Get every configured channel, including the default channel
    */
-  private findChannelsForPost(post: AnswerPost): ChannelMapping[] {
-    const matchingChannels: ChannelMapping[] = [];
-    const postTagNames = post.tags.map((tag) => tag.slug_name);
+  getAllChannels(): ChannelMapping[] {
+    const channels = [...config.teams.channels];
+    if (config.teams.defaultChannel) {
+      channels.push(config.teams.defaultChannel);
+    }
+    return channels;
+  }
+
+  /**
+   * Find the channels a post is routed to, with the rule that matched
+   */
+  routePost(post: AnswerPost): ChannelRoute[] {
+    const routes: ChannelRoute[] = [];
 
-    // Check if any channel has matching tags
     for (const channel of config.teams.channels) {
-      if (
-        channel.tags.length === 0 ||
-        channel.tags.some((tag) => postTagNames.includes(tag))
-      ) {
-        matchingChannels.push(channel);
+      const rule = findMatchingRule(channel, post);
+      if (rule) {
+        routes.push({ channel, rule });
       }
     }
 
     // If no specific channels match, use default channel
-    if (matchingChannels.length === 0 && config.teams.defaultChannel) {
-      matchingChannels.push(config.teams.defaultChannel);
+    if (routes.length === 0 && config.teams.defaultChannel) {
+      routes.push({
+        channel: config.teams.defaultChannel,
+        rule: "default channel",
+      });
     }
 
-    return matchingChannels;
+    return routes;
   }
 
   /**
-   * Send a post to Teams channels
+   * Find the appropriate channel(s) for a post based on its routing rules
    */
-  async sendPostToTeams(post: AnswerPost): Promise<void> {
-    const channels = this.findChannelsForPost(post);
+  findChannelsForPost(post: AnswerPost): ChannelMapping[] {
+    return this.routePost(post).map((route) => route.channel);
+  }
+
+  /**
+   * Send a post to its channels and report what happened in each
+   */
+  async sendPostToTeams(post: AnswerPost): Promise<PostDeliveryResult> {
+    const routes = this.routePost(post);
+    for (const { channel, rule } of routes) {
+      logger.info(
+        `🧭 "${post.title}" matches ${channel.channelName} via ${rule}`
+      );
+    }
+
+    // Digest channels get the post in their next digest instead
+    const channels = routes
+      .map((route) => route.channel)
+      .filter((channel) => !isDigestChannel(channel));
+    const result: PostDeliveryResult = {
+      questionId: post.id,
+      delivered: [],
+      retrying: [],
+      failed: [],
+      held: [],
+      skipped: [],
+    };
 
     if (channels.length === 0) {
-      logger.info(`📭 No Teams channels configured for post: ${post.title}`);
-      return;
+      logger.info(`📭 No channels configured for post: ${post.title}`);
+      return result;
     }
 
-    const postUrl = `${config.answers.baseUrl}/questions/${post.id}`;
-    const createdDate = new Date(post.created_at * 1000).toLocaleString(); // Convert from Unix timestamp
-    const tagNames = post.tags.map((tag) => tag.display_name).join(", ");
-
-    const message: TeamsMessage = {
-      type: "message",
-      attachments: [
-        {
-          contentType: "application/vnd.microsoft.card.adaptive",
-          contentUrl: null,
-          content: {
-            $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
-            type: "AdaptiveCard",
-            version: "1.2",
-            body: [
-              {
-                type: "TextBlock",
-                text: `📝 ${post.title}`,
-                weight: "bolder",
-                size: "large",
-                color: "accent",
-              },
-              {
-                type: "TextBlock",
-                text:
-                  post.description.substring(0, 200) +
-                  (post.description.length > 200 ? "..." : ""),
-                size: "medium",
-              },
-              {
-                type: "TextBlock",
-                text: `**Author:** ${post.operator.username}\n**Posted:** ${createdDate}\n**Tags:** ${tagNames}`,
-                size: "small",
-                color: "light",
-              },
-              {
-                type: "TextBlock",
-                text: `[View Post in Apache Answers](${postUrl})`,
-                size: "small",
-                color: "accent",
-              },
-              {
-                type: "TextBlock",
-                text: `${post.id}`,
-                size: "small",
-                color: "light",
-              },
-            ],
-          },
-        },
-      ],
+    this.deliveryRecords.begin(post);
+
+    const openChannels: ChannelMapping[] = [];
+    for (const channel of channels) {
+      if (this.deliveryRecords.isHandled(post.id, channel.channelName)) {
+        // Never send a card twice to the same channel
+        result.skipped.push(channel.channelName);
+      } else if (this.deliveryWindows.shouldDeliver(channel, post)) {
+        openChannels.push(channel);
+      } else {
+        // Hold the post for channels that are outside their delivery window
+        this.deliveryWindows.hold({
+          kind: "post",
+          channelName: channel.channelName,
+          heldAt: new Date().toISOString(),
+          post,
+        });
+        result.held.push(channel.channelName);
+      }
+    }
+
+    if (openChannels.length > 0) {
+      Object.assign(result, await this.sendPostToChannels(post, openChannels));
+    }
+
+    logger.info(
+      `📬 Delivery of "${post.title}": ${describeDeliveryResult(result)}`
+    );
+    return result;
+  }
+
+  /**
+   * Send a post to the given channels. Each channel is delivered and
+   * recorded independently, so one failing channel does not affect the rest.
+   */
+  private async sendPostToChannels(
+    post: AnswerPost,
+    channels: ChannelMapping[]
+  ): Promise<Pick<PostDeliveryResult, "delivered" | "retrying" | "failed">> {
+    const event: NotificationEvent = {
+      kind: "new-question",
+      post,
+      asker: this.userDirectory.getAsker(post.id, post.operator.username),
     };
 
     logger.info(
-      `📤 Sending post "${post.title}" to ${channels.length} Teams channel(s)`
+      `📤 Sending post "${post.title}" to ${channels.length} channel(s)`
     );
 
-    // Send to all matching channels
-    const sendPromises = channels.map(async (channel) => {
-      try {
-        await axios.post(channel.webhookUrl, message, {
-          headers: {
-            "Content-Type": "application/json",
-          },
-          timeout: 30000,
-          httpsAgent: new https.Agent({
-            rejectUnauthorized: false,
-          }),
-        });
+    // Delivery records (and duplicate tracking) are updated by the queue
+    const settled = await Promise.allSettled(
+      channels.map((channel) =>
+        this.notify(
+          channel,
+          event,
+          `post "${post.title}" to ${channel.channelName}`,
+          DeliveryRecords.deliveryKey(post.id)
+        )
+      )
+    );
 
-        logger.info(`✅ Successfully sent to ${channel.channelName}`);
-      } catch (error) {
-        logger.error(`❌ Failed to send to ${channel.channelName}:`, error);
-        throw error;
+    settled.forEach((outcome, index) => {
+      if (outcome.status === "rejected") {
+        logger.error(
+          `❌ Failed to queue post for ${channels[index].channelName}:`,
+          outcome.reason
+        );
       }
     });
 
-    try {
-      await Promise.all(sendPromises);
+    const { delivered, retrying, failed } = this.deliveryRecords.getResult(
+      post.id,
+      channels.map((channel) => channel.channelName)
+    );
+    // Channels whose send never reached the queue count as failed
+    const recorded = [...delivered, ...retrying, ...failed];
+    for (const channel of channels) {
+      if (!recorded.includes(channel.channelName)) {
+        failed.push(channel.channelName);
+      }
+    }
+    return { delivered, retrying, failed };
+  }
 
-      // Track this question as sent to Teams
+  /**
+   * Re-post an unanswered question to a channel as a "still needs an answer" card
+   */
+  async sendReminderToChannel(
+    channel: ChannelMapping,
+    post: AnswerPost,
+    reminderNumber: number,
+    escalated: boolean = false
+  ): Promise<void> {
+    try {
+      await this.notify(
+        channel,
+        { kind: "reminder", post, reminderNumber, escalated },
+        `${escalated ? "escalation" : "reminder"} for "${post.title}" to ${
+          channel.channelName
+        }`
+      );
       logger.info(
-        `📝 About to track question: "${post.title}" (ID: ${post.id})`
+        `⏰ Sent ${escalated ? "escalation" : "reminder"} for "${
+          post.title
+        }" to ${channel.channelName}`
+      );
+    } catch (error) {
+      logger.error(
+        `❌ Failed to send reminder for "${post.title}" to ${channel.channelName}:`,
+        error
       );
-      this.sentQuestionsTracker.trackSentQuestion(post);
-      logger.info(`✅ Question tracking completed`);
+      throw error;
+    }
+  }
 
-      logger.info(
-        `🎉 Successfully sent post to all ${channels.length} channel(s)`
+  /**
+   * Send a single digest card listing questions to a channel
+   */
+  async sendDigestToChannel(
+    channel: ChannelMapping,
+    title: string,
+    sections: DigestSection[]
+  ): Promise<void> {
+    try {
+      await this.notify(
+        channel,
+        { kind: "digest", title, sections },
+        `digest to ${channel.channelName}`
       );
+      logger.info(`📰 Sent digest to ${channel.channelName}`);
     } catch (error) {
-      logger.error("❌ Failed to send post to one or more channels:", error);
+      logger.error(
+        `❌ Failed to send digest to ${channel.channelName}:`,
+        error
+      );
       throw error;
     }
   }
@@ -179,7 +287,9 @@ export class TeamsService {
     teamId: string,
     channelId: string,
     url: string,
-    additionalText: string
+    additionalText: string,
+    mentions: TeamsUser[] = [],
+    channel?: ChannelMapping
   ): Promise<void> {
     if (!config.teams.newPostReplyWebhook) {
       logger.warn(
@@ -188,58 +298,6 @@ export class TeamsService {
       return;
     }
 
-    const message: TeamsMessage = {
-      type: "message",
-      attachments: [
-        {
-          contentType: "application/vnd.microsoft.card.adaptive",
-          contentUrl: null,
-          content: {
-            $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
-            type: "AdaptiveCard",
-            version: "1.2",
-            body: [
-              {
-                type: "TextBlock",
-                text: messageId,
-                weight: "bolder",
-                size: "medium",
-                color: "accent",
-              },
-              {
-                type: "TextBlock",
-                text: teamId,
-                weight: "normal",
-                size: "small",
-                color: "light",
-              },
-              {
-                type: "TextBlock",
-                text: channelId,
-                weight: "normal",
-                size: "small",
-                color: "light",
-              },
-              {
-                type: "TextBlock",
-                text: url,
-                weight: "normal",
-                size: "medium",
-                color: "accent",
-              },
-              {
-                type: "TextBlock",
-                text: additionalText,
-                weight: "normal",
-                size: "medium",
-                color: "default",
-              },
-            ],
-          },
-        },
-      ],
-    };
-
     try {
       logger.info(`📤 Sending message reply to Teams...`);
       logger.info(`📨 Message ID: ${messageId}`);
@@ -248,22 +306,132 @@ export class TeamsService {
       logger.info(`🔗 URL: ${url}`);
       logger.info(`📝 Additional Text: ${additionalText}`);
 
-      await axios.post(config.teams.newPostReplyWebhook, message, {
-        headers: {
-          "Content-Type": "application/json",
-        },
-        httpsAgent: new https.Agent({
-          rejectUnauthorized: false,
-        }),
+      const outcome = await this.outboundQueue.send({
+        webhookUrl: config.teams.newPostReplyWebhook,
+        payload: this.teamsNotifier.renderThreadReply(
+          messageId,
+          teamId,
+          channelId,
+          url,
+          additionalText,
+          mentions,
+          config.teams.replyPayloadFormat,
+          channel
+        ),
+        description: `reply to Teams message ${messageId}`,
       });
 
-      logger.info(`✅ Successfully sent message reply to Teams`);
+      if (outcome === "sent") {
+        logger.info(`✅ Successfully sent message reply to Teams`);
+      }
     } catch (error) {
       logger.error("❌ Failed to send message reply to Teams:", error);
       throw error;
     }
   }
 
+  /**
+   * Reply to the Teams message linked to a question, if there is one, and
+   * when the post is given, send the update to the non-Teams channels that
+   * received the question. The text is worded with each channel's templates,
+   * and replies are held while the channel is outside its delivery window.
+   * Returns false when nothing was sent or held.
+   */
+  async replyToQuestionThread(
+    questionId: string,
+    url: string,
+    text: ChannelText,
+    post?: AnswerPost,
+    mentions: TeamsUser[] = []
+  ): Promise<boolean> {
+    const updated = post
+      ? await this.sendQuestionUpdate(post, url, text, mentions)
+      : 0;
+
+    const link = this.linkRegistry.getByQuestionId(questionId);
+    if (!link) {
+      logger.debug(`No Teams message linked to question ${questionId}`);
+      return updated > 0;
+    }
+
+    // The reply is worded for the Teams channel the question was routed to
+    const teamsChannels = post
+      ? this.findChannelsForPost(post).filter(isTeamsChannel)
+      : [];
+    const closedChannel = teamsChannels.find(
+      (channel) => !this.deliveryWindows.shouldDeliver(channel, post)
+    );
+    if (closedChannel) {
+      this.deliveryWindows.hold({
+        kind: "reply",
+        channelName: closedChannel.channelName,
+        heldAt: new Date().toISOString(),
+        messageId: link.messageId,
+        teamId: link.teamId,
+        channelId: link.channelId,
+        url,
+        text: text(closedChannel),
+        mentions,
+      });
+      return true;
+    }
+
+    await this.replyToTeamsMessageWithFullContext(
+      link.messageId,
+      link.teamId,
+      link.channelId,
+      url,
+      text(teamsChannels[0]),
+      mentions,
+      teamsChannels[0]
+    );
+    return true;
+  }
+
+  /**
+   * Send a question update to every non-Teams channel that received the
+   * question (Teams channels get it as a thread reply instead). Returns the
+   * number of channels the update was sent to or held for.
+   */
+  private async sendQuestionUpdate(
+    post: AnswerPost,
+    url: string,
+    text: ChannelText,
+    mentions: TeamsUser[]
+  ): Promise<number> {
+    const channels = this.findChannelsForPost(post).filter(
+      (channel) =>
+        !isTeamsChannel(channel) &&
+        this.deliveryRecords.isHandled(post.id, channel.channelName)
+    );
+
+    for (const channel of channels) {
+      if (this.deliveryWindows.shouldDeliver(channel, post)) {
+        await this.notify(
+          channel,
+          {
+            kind: "question-update",
+            post,
+            url,
+            text: text(channel),
+            mentions,
+          },
+          `update on "${post.title}" to ${channel.channelName}`
+        );
+      } else {
+        this.deliveryWindows.hold({
+          kind: "update",
+          channelName: channel.channelName,
+          heldAt: new Date().toISOString(),
+          post,
+          url,
+          text: text(channel),
+        });
+      }
+    }
+    return channels.length;
+  }
+
   /**
    * Reply to a message in Teams with messageId, URL, and additional text
    */
@@ -279,70 +447,148 @@ export class TeamsService {
       return;
     }
 
-    const message: TeamsMessage = {
-      type: "message",
-      attachments: [
-        {
-          contentType: "application/vnd.microsoft.card.adaptive",
-          contentUrl: null,
-          content: {
-            $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
-            type: "AdaptiveCard",
-            version: "1.2",
-            body: [
-              {
-                type: "TextBlock",
-                text: messageId,
-                weight: "bolder",
-                size: "medium",
-                color: "accent",
-              },
-              {
-                type: "TextBlock",
-                text: url,
-                weight: "normal",
-                size: "medium",
-                color: "accent",
-              },
-              {
-                type: "TextBlock",
-                text: additionalText,
-                weight: "normal",
-                size: "medium",
-                color: "default",
-              },
-            ],
-          },
-        },
-      ],
-    };
-
     try {
       logger.info(`📤 Sending message reply to Teams...`);
       logger.info(`📨 Message ID: ${messageId}`);
       logger.info(`🔗 URL: ${url}`);
       logger.info(`📝 Additional Text: ${additionalText}`);
 
-      await axios.post(config.teams.newPostReplyWebhook, message, {
-        headers: {
-          "Content-Type": "application/json",
-        },
-        httpsAgent: new https.Agent({
-          rejectUnauthorized: false,
-        }),
+      const outcome = await this.outboundQueue.send({
+        webhookUrl: config.teams.newPostReplyWebhook,
+        payload: this.teamsNotifier.renderMessageReply(
+          messageId,
+          url,
+          additionalText,
+          config.teams.replyPayloadFormat
+        ),
+        description: `reply to Teams message ${messageId}`,
       });
 
-      logger.info(`✅ Successfully sent message reply to Teams`);
+      if (outcome === "sent") {
+        logger.info(`✅ Successfully sent message reply to Teams`);
+      }
     } catch (error) {
       logger.error("❌ Failed to send message reply to Teams:", error);
       throw error;
     }
   }
 
+  /**
+   * Send held messages for every channel whose delivery window is open.
+   * They are released together but sent one by one, in the order they were
+   * held, so each question keeps its own card to thread replies under.
+   */
+  async releaseHeldMessages(): Promise<void> {
+    const released = this.deliveryWindows.takeReleasable(this.getAllChannels());
+    if (released.length === 0) {
+      return;
+    }
+
+    logger.info(`🌅 Releasing ${released.length} held message(s)`);
+
+    for (const { channel, message } of released) {
+      try {
+        if (message.kind === "post") {
+          this.deliveryRecords.begin(message.post);
+          if (
+            !this.deliveryRecords.isHandled(
+              message.post.id,
+              channel.channelName
+            )
+          ) {
+            await this.sendPostToChannels(message.post, [channel]);
+          }
+        } else if (message.kind === "update") {
+          await this.notify(
+            channel,
+            {
+              kind: "question-update",
+              post: message.post,
+              url: message.url,
+              text: message.text,
+              mentions: [],
+            },
+            `update on "${message.post.title}" to ${channel.channelName}`
+          );
+        } else {
+          await this.replyToTeamsMessageWithFullContext(
+            message.messageId,
+            message.teamId,
+            message.channelId,
+            message.url,
+            message.text,
+            message.mentions,
+            channel
+          );
+        }
+      } catch (error) {
+        logger.error(
+          `❌ Failed to release held ${message.kind} for ${channel.channelName}, holding it again:`,
+          error
+        );
+        this.deliveryWindows.hold(message);
+      }
+    }
+  }
+
+  /**
+   * Render an event with the channel's notifier and send it through the
+   * outbound queue, which retries transient failures
+   */
+  private async notify(
+    channel: ChannelMapping,
+    event: NotificationEvent,
+    description: string,
+    deliveryKey?: string
+  ): Promise<DeliveryOutcome> {
+    const notifier = this.notifiers[channel.notifier || "teams"];
+    if (!notifier) {
+      throw new Error(
+        `Unknown notifier "${channel.notifier}" for channel ${channel.channelName}`
+      );
+    }
+
+    return this.outboundQueue.send({
+      webhookUrl: channel.webhookUrl,
+      payload: notifier.render(event, channel),
+      description,
+      channelName: channel.channelName,
+      deliveryKey,
+    });
+  }
+
+  /**
+   * Get the per-channel delivery records of post cards
+   */
+  getDeliveryRecords(): DeliveryRecords {
+    return this.deliveryRecords;
+  }
+
+  /**
+   * Get the outbound delivery queue
+   */
+  getOutboundQueue(): OutboundQueue {
+    return this.outboundQueue;
+  }
+
+  /**
+   * Get the Answers ↔ Teams user directory used for mentions
+   */
+  getUserDirectory(): UserDirectory {
+    return this.userDirectory;
+  }
+
   /**
    * Get the sent questions tracker for duplicate detection
    */
   getSentQuestionsTracker(): SentQuestionsTracker {
     return this.sentQuestionsTracker;
   }
+
+  /**
+   * Get the question ↔ Teams message link registry
+   */
+  getLinkRegistry(): TeamsLinkRegistry {
+    return this.linkRegistry;
+  }
 }
@@ -0,0 +1,101 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { config } from "../config/config";
+import logger from "./logger";
+import { MemoryStateStore, setStateStore } from "./stateStore";
+import { UserDirectory } from "./userDirectory";
+
+describe("UserDirectory", () => {
+  const { userMapFile } = config.teams;
+  let dir: string;
+  let store: MemoryStateStore;
+
+  beforeEach(() => {
+    jest.spyOn(logger, "info").mockImplementation(() => logger);
+    jest.spyOn(logger, "warn").mockImplementation(() => logger);
+    jest.spyOn(logger, "error").mockImplementation(() => logger);
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "user-map-"));
+    config.teams.userMapFile = path.join(dir, "users.json");
+    fs.writeFileSync(
+      config.teams.userMapFile,
+      JSON.stringify([
+        {
+          answersUsername: "Alice",
+          teamsUpn: "alice@example.com",
+          teamsName: "Alice Liddell",
+        },
+        { answersEmail: "Bob@Example.com", teamsUpn: "bob@example.com" },
+        { answersUsername: "nobody" },
+      ])
+    );
+
+    store = new MemoryStateStore();
+    setStateStore(store);
+    UserDirectory.resetInstance();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    config.teams.userMapFile = userMapFile;
+    UserDirectory.resetInstance();
+    setStateStore(null);
+    jest.restoreAllMocks();
+  });
+
+  it("maps Answers usernames and emails to Teams users, ignoring case", () => {
+    const directory = UserDirectory.getInstance();
+
+    expect(directory.findByAnswersUser("alice")).toEqual({
+      upn: "alice@example.com",
+      name: "Alice Liddell",
+    });
+    expect(directory.findByAnswersUser("bob", "bob@example.COM")).toEqual({
+      upn: "bob@example.com",
+      name: "bob@example.com",
+    });
+    expect(directory.findByAnswersUser("bob")).toBeUndefined();
+    expect(directory.findByAnswersUser("nobody")).toBeUndefined();
+  });
+
+  it("starts without mappings when the map file cannot be read", () => {
+    fs.writeFileSync(config.teams.userMapFile!, "not json");
+
+    expect(UserDirectory.getInstance().findByAnswersUser("alice")).toBe(
+      undefined
+    );
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it("prefers the Teams author a question was created from", () => {
+    const directory = UserDirectory.getInstance();
+    expect(directory.getAsker("q1", "alice")?.upn).toBe("alice@example.com");
+
+    directory.rememberAsker("q1", { upn: "carol@example.com", name: "Carol" });
+
+    expect(directory.getAsker("q1", "alice")).toEqual({
+      upn: "carol@example.com",
+      name: "Carol",
+    });
+    expect(directory.getAsker("q2", "alice")?.upn).toBe("alice@example.com");
+  });
+
+  it("keeps learned askers across restarts until the link retention ends", () => {
+    UserDirectory.getInstance().rememberAsker("q1", {
+      upn: "carol@example.com",
+      name: "Carol",
+    });
+
+    UserDirectory.resetInstance();
+    expect(UserDirectory.getInstance().getAsker("q1", "x")?.name).toBe("Carol");
+
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(
+        Date.now() + (config.state.linkRetentionDays + 1) * 24 * 60 * 60 * 1000
+      );
+    UserDirectory.resetInstance();
+    expect(UserDirectory.getInstance().getAsker("q1", "x")).toBeUndefined();
+  });
+});
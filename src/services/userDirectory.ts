@@ -0,0 +1,171 @@
+import fs from "fs";
+import { config } from "../config/config";
+import logger from "./logger";
+import { getStateStore, StateStore } from "./stateStore";
+
+/**
+ * A Teams user that can be @mentioned
+ */
+export interface TeamsUser {
+  // User principal name or Entra object ID
+  upn: string;
+  name: string;
+}
+
+/**
+ * Entry of the user map file; each entry needs a username or an email
+ */
+export interface UserMapEntry {
+  answersUsername?: string;
+  answersEmail?: string;
+  teamsUpn: string;
+  // Defaults to the UPN
+  teamsName?: string;
+}
+
+/**
+ * Teams author of a question created from a Teams message
+ */
+interface LearnedAsker extends TeamsUser {
+  rememberedAt: string;
+}
+
+const ASKERS_KEY = "userDirectory.askers";
+
+/**
+ * Maps Apache Answers users to Teams users. Mappings come from the user map
+ * file; the Teams author of a question created from a Teams message is
+ * learned from the emoji callback.
+ */
+export class UserDirectory {
+  private static instance: UserDirectory | null = null;
+  private byUsername: Map<string, TeamsUser> = new Map();
+  private byEmail: Map<string, TeamsUser> = new Map();
+  private askers: Record<string, LearnedAsker>;
+  private store: StateStore;
+
+  private constructor(store: StateStore) {
+    // Private constructor for singleton pattern
+    this.store = store;
+    this.askers = this.loadAskers();
+    if (config.teams.userMapFile) {
+      this.loadMapFile(config.teams.userMapFile);
+    }
+  }
+
+  /**
+   * Get the singleton instance of UserDirectory
+   */
+  static getInstance(): UserDirectory {
+    if (!UserDirectory.instance) {
+      UserDirectory.instance = new UserDirectory(getStateStore());
+    }
+    return UserDirectory.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  static resetInstance(): void {
+    UserDirectory.instance = null;
+  }
+
+  /**
+   * Restore learned askers, dropping those past the link retention period.
+   * Entries from before askers were timestamped count as new.
+   */
+  private loadAskers(): Record<string, LearnedAsker> {
+    const persisted =
+      this.store.get<Record<string, TeamsUser & Partial<LearnedAsker>>>(
+        ASKERS_KEY
+      ) || {};
+    const now = new Date().toISOString();
+    const askers: Record<string, LearnedAsker> = {};
+    for (const [questionId, asker] of Object.entries(persisted)) {
+      askers[questionId] = {
+        ...asker,
+        rememberedAt: asker.rememberedAt || now,
+      };
+    }
+    this.pruneAskers(askers);
+    return askers;
+  }
+
+  /**
+   * Drop askers older than the link retention period
+   */
+  private pruneAskers(askers: Record<string, LearnedAsker>): void {
+    const cutoff =
+      Date.now() - config.state.linkRetentionDays * 24 * 60 * 60 * 1000;
+    for (const [questionId, asker] of Object.entries(askers)) {
+      if (new Date(asker.rememberedAt).getTime() < cutoff) {
+        delete askers[questionId];
+      }
+    }
+  }
+
+  private loadMapFile(filePath: string): void {
+    let entries: UserMapEntry[];
+    try {
+      entries = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (error) {
+      logger.error(`❌ Failed to load user map file ${filePath}:`, error);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.teamsUpn) {
+        logger.warn(
+          `⚠️ Skipping user map entry without teamsUpn: ${JSON.stringify(entry)}`
+        );
+        continue;
+      }
+      const user = {
+        upn: entry.teamsUpn,
+        name: entry.teamsName || entry.teamsUpn,
+      };
+      if (entry.answersUsername) {
+        this.byUsername.set(entry.answersUsername.toLowerCase(), user);
+      }
+      if (entry.answersEmail) {
+        this.byEmail.set(entry.answersEmail.toLowerCase(), user);
+      }
+    }
+    logger.info(`👥 Loaded ${entries.length} user mapping(s) from ${filePath}`);
+  }
+
+  /**
+   * Find the Teams user of an Apache Answers account
+   */
+  findByAnswersUser(username: string, email?: string): TeamsUser | undefined {
+    return (
+      this.byUsername.get(username.toLowerCase()) ||
+      (email ? this.byEmail.get(email.toLowerCase()) : undefined)
+    );
+  }
+
+  /**
+   * Remember who wrote the Teams message a question was created from
+   */
+  rememberAsker(questionId: string, user: TeamsUser): void {
+    this.askers[questionId] = {
+      upn: user.upn,
+      name: user.name,
+      rememberedAt: new Date().toISOString(),
+    };
+    this.pruneAskers(this.askers);
+    this.store.set(ASKERS_KEY, this.askers);
+    logger.debug(`👤 Remembered ${user.name} as asker of ${questionId}`);
+  }
+
+  /**
+   * Get the Teams user who asked a question: the learned Teams author, or
+   * the mapped Apache Answers author
+   */
+  getAsker(questionId: string, username: string): TeamsUser | undefined {
+    const asker = this.askers[questionId];
+    return asker
+      ? { upn: asker.upn, name: asker.name }
+      : this.findByAnswersUser(username);
+  }
+}
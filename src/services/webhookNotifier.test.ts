@@ -0,0 +1,131 @@
+import { ChannelMapping } from "../config/config";
+import { AnswerPost } from "../types/answers";
+import { questionUrl } from "./notifier";
+import { fillTemplate, WebhookNotifier } from "./webhookNotifier";
+
+const post = {
+  id: "q1",
+  title: "How do I deploy?",
+  description: "It fails",
+  created_at: 1715760000,
+  operator: { username: "alice", display_name: "Alice" },
+  tags: [
+    { slug_name: "ops", display_name: "ops" },
+    { slug_name: "linux", display_name: "Linux" },
+  ],
+} as AnswerPost;
+
+function channel(settings: Partial<ChannelMapping> = {}): ChannelMapping {
+  return {
+    tags: ["ops"],
+    webhookUrl: "https://chat.example/hook",
+    channelName: "Ops",
+    notifier: "webhook",
+    ...settings,
+  };
+}
+
+describe("fillTemplate", () => {
+  it("keeps whole-placeholder values as JSON values", () => {
+    expect(
+      fillTemplate(
+        { tags: "{{tags}}", count: "{{count}}", nested: ["{{missing}}"] },
+        { tags: ["a", "b"], count: 2 }
+      )
+    ).toEqual({ tags: ["a", "b"], count: 2, nested: [""] });
+  });
+
+  it("interpolates placeholders inside longer strings", () => {
+    expect(
+      fillTemplate("{{title}} ({{ count }} tags)", { title: "Q", count: 2 })
+    ).toBe("Q (2 tags)");
+  });
+
+  it("leaves numbers, booleans and null alone", () => {
+    expect(fillTemplate({ a: 1, b: true, c: null }, {})).toEqual({
+      a: 1,
+      b: true,
+      c: null,
+    });
+  });
+});
+
+describe("WebhookNotifier", () => {
+  const notifier = new WebhookNotifier();
+
+  it("sends the default body when the channel has no template", () => {
+    const body = notifier.render({ kind: "new-question", post }, channel());
+
+    expect(body).toEqual({
+      event: "new-question",
+      channel: "Ops",
+      title: "How do I deploy?",
+      text: "It fails",
+      url: questionUrl("q1"),
+      questionId: "q1",
+      author: "alice",
+      tags: ["ops", "Linux"],
+      timestamp: expect.any(String),
+    });
+  });
+
+  it("fills the channel's own template", () => {
+    const body = notifier.render(
+      { kind: "reminder", post, reminderNumber: 2, escalated: false },
+      channel({
+        template: {
+          message: "{{text}}: {{title}} by {{authorName}}",
+          reminder: "{{reminderNumber}}",
+          escalated: "{{escalated}}",
+        },
+      })
+    );
+
+    expect(body).toEqual({
+      message:
+        "⏰ Still needs an answer (reminder 2): How do I deploy? by Alice",
+      reminder: 2,
+      escalated: false,
+    });
+  });
+
+  it("turns Teams mentions of updates into plain text", () => {
+    const body = notifier.render(
+      {
+        kind: "question-update",
+        post,
+        url: `${questionUrl("q1")}/a1`,
+        text: "<at>Bob</at>: Use sudo",
+        mentions: [{ upn: "bob@example.com", name: "Bob" }],
+      },
+      channel({ template: { text: "{{text}}", url: "{{url}}" } })
+    );
+
+    expect(body).toEqual({
+      text: "@Bob: Use sudo",
+      url: `${questionUrl("q1")}/a1`,
+    });
+  });
+
+  it("lists the questions of a digest", () => {
+    const body = notifier.render(
+      {
+        kind: "digest",
+        title: "📰 Daily digest for Ops",
+        sections: [{ heading: "🆕 New questions", posts: [post] }],
+      },
+      channel({ template: { questions: "{{questions}}" } })
+    );
+
+    expect(body).toEqual({
+      questions: [
+        {
+          section: "🆕 New questions",
+          questionId: "q1",
+          title: "How do I deploy?",
+          url: questionUrl("q1"),
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { ChannelMapping, config, WebhookTemplate } from "../config/config";
+import { renderToText } from "../utils/teamsMarkdown";
+import {
+  formatDate,
+  formatMessage,
+  readMoreLink,
+} from "../utils/messageTemplates";
+import {
+  NotificationEvent,
+  Notifier,
+  plainMentions,
+  questionUrl,
+} from "./notifier";
+
+type TemplateValue = string | number | boolean | string[] | object[];
+
+/**
+ * Body sent when a channel does not define its own template
+ */
+export const DEFAULT_WEBHOOK_TEMPLATE: WebhookTemplate = {
+  event: "{{event}}",
+  channel: "{{channel}}",
+  title: "{{title}}",
+  text: "{{text}}",
+  url: "{{url}}",
+  questionId: "{{questionId}}",
+  author: "{{author}}",
+  tags: "{{tags}}",
+  timestamp: "{{timestamp}}",
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*(\w+)\s*\}\}$/;
+
+/**
+ * Fill a template's `{{placeholders}}`. A string that is exactly one
+ * placeholder takes the value as is, so lists and numbers stay JSON values;
+ * unknown placeholders become empty strings.
+ */
+export function fillTemplate(
+  template: WebhookTemplate,
+  values: Record<string, TemplateValue>
+): unknown {
+  if (typeof template === "string") {
+    const whole = template.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return values[whole[1]] ?? "";
+    }
+    return template.replace(PLACEHOLDER, (_match, name) =>
+      String(values[name] ?? "")
+    );
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => fillTemplate(item, values));
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [
+        key,
+        fillTemplate(value, values),
+      ])
+    );
+  }
+  return template;
+}
+
+/**
+ * Renders events into a channel's JSON template, for chat tools that accept
+ * generic webhooks
+ */
+export class WebhookNotifier implements Notifier {
+  render(event: NotificationEvent, channel: ChannelMapping): object {
+    const values = {
+      event: event.kind,
+      channel: channel.channelName,
+      timestamp: new Date().toISOString(),
+      ...this.getValues(event, channel),
+    };
+    return fillTemplate(
+      channel.template ?? DEFAULT_WEBHOOK_TEMPLATE,
+      values
+    ) as object;
+  }
+
+  /**
+   * Placeholder values of an event; text values are Markdown
+   */
+  private getValues(
+    event: NotificationEvent,
+    channel: ChannelMapping
+  ): Record<string, TemplateValue> {
+    if (event.kind === "digest") {
+      const questions = event.sections.flatMap((section) =>
+        section.posts.map((post) => ({
+          section: section.heading,
+          questionId: post.id,
+          title: post.title,
+          url: questionUrl(post.id),
+        }))
+      );
+      return {
+        title: event.title,
+        text: event.sections
+          .map(
+            (section) =>
+              `**${section.heading}** (${section.posts.length})\n${section.posts
+                .map((post) => `- [${post.title}](${questionUrl(post.id)})`)
+                .join("\n")}`
+          )
+          .join("\n\n"),
+        questions,
+      };
+    }
+
+    const post = event.post;
+    const url = questionUrl(post.id);
+    const values: Record<string, TemplateValue> = {
+      questionId: post.id,
+      title: post.title,
+      url,
+      author: post.operator.username,
+      authorName: post.operator.display_name,
+      posted: formatDate(post.created_at, channel),
+      tags: post.tags.map((tag) => tag.display_name),
+    };
+
+    switch (event.kind) {
+      case "new-question":
+        values.text = renderToText(post.description, {
+          maxLength: config.teams.excerptLength,
+          readMore: readMoreLink(url, channel),
+        });
+        break;
+      case "reminder":
+        values.text = event.escalated
+          ? formatMessage("escalation", {}, channel)
+          : formatMessage(
+              "reminder",
+              { number: event.reminderNumber },
+              channel
+            );
+        values.reminderNumber = event.reminderNumber;
+        values.escalated = event.escalated;
+        break;
+      case "question-update":
+        values.text = plainMentions(event.text);
+        values.url = event.url;
+        break;
+    }
+    return values;
+  }
+}
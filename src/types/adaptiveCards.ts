@@ -0,0 +1,112 @@
+export type CardColor =
+  "default" | "dark" | "light" | "accent" | "good" | "warning" | "attention";
+
+export type CardSpacing =
+  "none" | "small" | "default" | "medium" | "large" | "extraLarge";
+
+export interface CardElementBase {
+  id?: string;
+  spacing?: CardSpacing;
+  separator?: boolean;
+  isVisible?: boolean;
+}
+
+export interface TextBlock extends CardElementBase {
+  type: "TextBlock";
+  text: string;
+  weight?: "bolder" | "lighter" | "default";
+  size?: "small" | "default" | "medium" | "large" | "extraLarge";
+  color?: CardColor;
+  fontType?: "default" | "monospace";
+  isSubtle?: boolean;
+  wrap?: boolean;
+  maxLines?: number;
+}
+
+export interface Fact {
+  title: string;
+  value: string;
+}
+
+export interface FactSet extends CardElementBase {
+  type: "FactSet";
+  facts: Fact[];
+}
+
+export interface Image extends CardElementBase {
+  type: "Image";
+  url: string;
+  altText?: string;
+  size?: "auto" | "stretch" | "small" | "medium" | "large";
+  style?: "default" | "person";
+}
+
+export interface Column {
+  type: "Column";
+  items: CardElement[];
+  width?: "auto" | "stretch" | string;
+  verticalContentAlignment?: "top" | "center" | "bottom";
+}
+
+export interface ColumnSet extends CardElementBase {
+  type: "ColumnSet";
+  columns: Column[];
+}
+
+export interface Container extends CardElementBase {
+  type: "Container";
+  items: CardElement[];
+  style?: "default" | "emphasis" | "good" | "attention" | "warning" | "accent";
+}
+
+export interface OpenUrlAction {
+  type: "Action.OpenUrl";
+  title: string;
+  url: string;
+  style?: "default" | "positive" | "destructive";
+}
+
+export type CardAction = OpenUrlAction;
+
+export interface ActionSet extends CardElementBase {
+  type: "ActionSet";
+  actions: CardAction[];
+}
+
+export type CardElement =
+  TextBlock | FactSet | Image | ColumnSet | Container | ActionSet;
+
+/**
+ * Teams mention of a user, referenced from card text as `<at>name</at>`
+ */
+export interface MentionEntity {
+  type: "mention";
+  text: string;
+  mentioned: {
+    // Teams user principal name or Entra object ID
+    id: string;
+    name: string;
+  };
+}
+
+export interface AdaptiveCard {
+  $schema: "http://adaptivecards.io/schemas/adaptive-card.json";
+  type: "AdaptiveCard";
+  version: string;
+  body: CardElement[];
+  actions?: CardAction[];
+  msteams?: {
+    width?: "Full";
+    entities?: MentionEntity[];
+  };
+}
+
+export interface TeamsMessage {
+  type: "message";
+  attachments: Array<{
+    contentType: "application/vnd.microsoft.card.adaptive";
+    // Only the legacy connector envelope carries this
+    contentUrl?: null;
+    content: AdaptiveCard;
+  }>;
+}
@@ -34,6 +34,16 @@ export interface AnswerPost {
   vote_count: number;
 }
 
+/**
+ * Values of `AnswerPost.status`
+ */
+export const QuestionStatus = {
+  Available: 1,
+  Closed: 2,
+  Deleted: 10,
+  Pending: 11,
+} as const;
+
 export interface AnswerUser {
   id: string;
   username: string;
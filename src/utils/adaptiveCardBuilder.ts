@@ -0,0 +1,176 @@
+import {
+  ActionSet,
+  AdaptiveCard,
+  CardAction,
+  CardElement,
+  Column,
+  ColumnSet,
+  Container,
+  Fact,
+  FactSet,
+  Image,
+  MentionEntity,
+  OpenUrlAction,
+  TeamsMessage,
+  TextBlock,
+} from "../types/adaptiveCards";
+import { config, WebhookPayloadFormat } from "../config/config";
+import { TeamsUser } from "../services/userDirectory";
+
+// Newest card version the Workflows "Post card" actions render
+const WORKFLOWS_MAX_CARD_VERSION = "1.4";
+
+export function textBlock(
+  text: string,
+  options: Omit<TextBlock, "type" | "text"> = {}
+): TextBlock {
+  return { type: "TextBlock", text, wrap: true, ...options };
+}
+
+export function factSet(
+  facts: Fact[],
+  options: Omit<FactSet, "type" | "facts"> = {}
+): FactSet {
+  // Teams renders empty values as broken rows, so drop them
+  return {
+    type: "FactSet",
+    facts: facts.filter((fact) => fact.value !== ""),
+    ...options,
+  };
+}
+
+export function image(
+  url: string,
+  options: Omit<Image, "type" | "url"> = {}
+): Image {
+  return { type: "Image", url, ...options };
+}
+
+export function column(
+  items: CardElement[],
+  options: Omit<Column, "type" | "items"> = {}
+): Column {
+  return { type: "Column", items, ...options };
+}
+
+export function columnSet(
+  columns: Column[],
+  options: Omit<ColumnSet, "type" | "columns"> = {}
+): ColumnSet {
+  return { type: "ColumnSet", columns, ...options };
+}
+
+export function container(
+  items: CardElement[],
+  options: Omit<Container, "type" | "items"> = {}
+): Container {
+  return { type: "Container", items, ...options };
+}
+
+export function openUrlAction(
+  title: string,
+  url: string,
+  options: Omit<OpenUrlAction, "type" | "title" | "url"> = {}
+): OpenUrlAction {
+  return { type: "Action.OpenUrl", title, url, ...options };
+}
+
+export function actionSet(
+  actions: CardAction[],
+  options: Omit<ActionSet, "type" | "actions"> = {}
+): ActionSet {
+  return { type: "ActionSet", actions, ...options };
+}
+
+/**
+ * Text that mentions a Teams user; the card must carry the matching entity
+ */
+export function mentionText(user: TeamsUser): string {
+  return `<at>${user.name}</at>`;
+}
+
+export function mentionEntity(user: TeamsUser): MentionEntity {
+  return {
+    type: "mention",
+    text: mentionText(user),
+    mentioned: { id: user.upn, name: user.name },
+  };
+}
+
+/**
+ * Build an Adaptive Card using the configured schema version
+ */
+export function adaptiveCard(
+  body: CardElement[],
+  actions: CardAction[] = [],
+  mentions: TeamsUser[] = []
+): AdaptiveCard {
+  const card: AdaptiveCard = {
+    $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+    type: "AdaptiveCard",
+    version: config.teams.cardVersion,
+    body,
+    msteams: { width: "Full" },
+  };
+  if (actions.length > 0) {
+    card.actions = actions;
+  }
+  if (mentions.length > 0) {
+    // Teams rejects cards that mention the same entity twice
+    const unique = new Map(mentions.map((user) => [user.upn, user]));
+    card.msteams!.entities = Array.from(unique.values()).map(mentionEntity);
+  }
+  return card;
+}
+
+/**
+ * Wrap a card in the message envelope Teams webhooks expect
+ */
+export function teamsMessage(card: AdaptiveCard): TeamsMessage {
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: card,
+      },
+    ],
+  };
+}
+
+function compareVersions(a: string, b: string): number {
+  const [aMajor = 0, aMinor = 0] = a.split(".").map(Number);
+  const [bMajor = 0, bMinor = 0] = b.split(".").map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+/**
+ * Wrap a card in the envelope a webhook of the given format expects
+ */
+export function toWebhookPayload(
+  card: AdaptiveCard,
+  format: WebhookPayloadFormat = "legacy"
+): TeamsMessage | AdaptiveCard {
+  switch (format) {
+    case "workflows": {
+      const version =
+        compareVersions(card.version, WORKFLOWS_MAX_CARD_VERSION) > 0
+          ? WORKFLOWS_MAX_CARD_VERSION
+          : card.version;
+      return {
+        type: "message",
+        attachments: [
+          {
+            contentType: "application/vnd.microsoft.card.adaptive",
+            content: { ...card, version },
+          },
+        ],
+      };
+    }
+    case "adaptive-card":
+      return card;
+    default:
+      return teamsMessage(card);
+  }
+}
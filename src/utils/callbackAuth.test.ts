@@ -0,0 +1,114 @@
+import { createHmac } from "crypto";
+import {
+  checkSignature,
+  computeSignature,
+  ReplayGuard,
+  secretsMatch,
+} from "./callbackAuth";
+
+describe("secretsMatch", () => {
+  it("compares secrets of any length", () => {
+    expect(secretsMatch("s3cret", "s3cret")).toBe(true);
+    expect(secretsMatch("s3cret", "s3creT")).toBe(false);
+    expect(secretsMatch("s3cret", "s3cret-longer")).toBe(false);
+    expect(secretsMatch("", "s3cret")).toBe(false);
+  });
+});
+
+describe("computeSignature", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "key")
+      .update('1700000000.{"a":1}')
+      .digest("hex");
+
+    expect(computeSignature("key", "1700000000", '{"a":1}')).toBe(expected);
+    expect(computeSignature("key", "1700000000", Buffer.from('{"a":1}'))).toBe(
+      expected
+    );
+  });
+});
+
+describe("checkSignature", () => {
+  const secret = "key";
+  const body = '{"messageId":"1"}';
+  const now = 1_700_000_000_000;
+  const timestamp = String(now / 1000);
+  const signature = computeSignature(secret, timestamp, body);
+
+  const check = (
+    overrides: { timestamp?: string; signature?: string; body?: string } = {}
+  ) =>
+    checkSignature(
+      secret,
+      "timestamp" in overrides ? overrides.timestamp : timestamp,
+      "signature" in overrides ? overrides.signature : signature,
+      overrides.body ?? body,
+      300,
+      now
+    );
+
+  it("accepts a valid signature, with or without the sha256= prefix", () => {
+    expect(check()).toBeUndefined();
+    expect(
+      check({ signature: `sha256=${signature.toUpperCase()}` })
+    ).toBeUndefined();
+  });
+
+  it("requires a signature and a timestamp", () => {
+    expect(check({ signature: undefined })).toBe(
+      "missing signature or timestamp"
+    );
+    expect(check({ timestamp: "" })).toBe("missing signature or timestamp");
+  });
+
+  it.each(["17e8", "-1", "1700000000.5", "soon"])(
+    "rejects the malformed timestamp %p",
+    (malformed) => {
+      expect(check({ timestamp: malformed })).toBe("malformed timestamp");
+    }
+  );
+
+  it("only accepts timestamps within the tolerance", () => {
+    const at = (seconds: number) => {
+      const shifted = String(now / 1000 + seconds);
+      return check({
+        timestamp: shifted,
+        signature: computeSignature(secret, shifted, body),
+      });
+    };
+
+    expect(at(-300)).toBeUndefined();
+    expect(at(300)).toBeUndefined();
+    expect(at(-301)).toBe("timestamp outside the allowed window");
+    expect(at(301)).toBe("timestamp outside the allowed window");
+  });
+
+  it("rejects a signature of another body, timestamp or secret", () => {
+    expect(check({ body: '{"messageId":"2"}' })).toBe("signature mismatch");
+    expect(
+      check({ signature: computeSignature(secret, "1700000001", body) })
+    ).toBe("signature mismatch");
+    expect(
+      check({ signature: computeSignature("other", timestamp, body) })
+    ).toBe("signature mismatch");
+  });
+});
+
+describe("ReplayGuard", () => {
+  it("rejects a signature used twice within the window", () => {
+    const guard = new ReplayGuard(300);
+
+    expect(guard.use("abc", 0)).toBe(true);
+    expect(guard.use("sha256=ABC", 1000)).toBe(false);
+    expect(guard.use("def", 1000)).toBe(true);
+  });
+
+  it("forgets signatures once their timestamp can no longer be accepted", () => {
+    const guard = new ReplayGuard(300);
+    guard.use("abc", 0);
+
+    // Timestamps are accepted up to 300 seconds on either side of now
+    expect(guard.use("abc", 599_999)).toBe(false);
+    expect(guard.use("abc", 600_000)).toBe(true);
+  });
+});
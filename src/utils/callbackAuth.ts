@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Compare two secrets in constant time
+ */
+export function secretsMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`, the value callers send in the
+ * X-Signature header
+ */
+export function computeSignature(
+  secret: string,
+  timestamp: string,
+  body: Buffer | string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+}
+
+/**
+ * Check a signature and its timestamp (Unix seconds). Returns why the
+ * signature was rejected, or undefined when it is valid.
+ */
+export function checkSignature(
+  secret: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  body: Buffer | string,
+  toleranceSeconds: number,
+  now: number = Date.now()
+): string | undefined {
+  if (!timestamp || !signature) {
+    return "missing signature or timestamp";
+  }
+  const seconds = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(seconds)) {
+    return "malformed timestamp";
+  }
+  if (Math.abs(now / 1000 - seconds) > toleranceSeconds) {
+    return "timestamp outside the allowed window";
+  }
+
+  const expected = computeSignature(secret, timestamp, body);
+  if (
+    !secretsMatch(signature.replace(/^sha256=/i, "").toLowerCase(), expected)
+  ) {
+    return "signature mismatch";
+  }
+  return undefined;
+}
+
+/**
+ * Remembers signatures seen within the tolerance window, so a captured
+ * request cannot be sent again while its timestamp is still accepted
+ */
+export class ReplayGuard {
+  private seen: Map<string, number> = new Map();
+  private readonly windowMs: number;
+
+  constructor(toleranceSeconds: number) {
+    // A timestamp is accepted up to the tolerance on either side of now
+    this.windowMs = toleranceSeconds * 2 * 1000;
+  }
+
+  /**
+   * Record a signature; false when it was already used
+   */
+  use(signature: string, now: number = Date.now()): boolean {
+    for (const [seenSignature, expiresAt] of this.seen) {
+      if (expiresAt <= now) {
+        this.seen.delete(seenSignature);
+      }
+    }
+
+    const key = signature.replace(/^sha256=/i, "").toLowerCase();
+    if (this.seen.has(key)) {
+      return false;
+    }
+    this.seen.set(key, now + this.windowMs);
+    return true;
+  }
+}
@@ -0,0 +1,157 @@
+import { ChannelMapping, config } from "../config/config";
+import {
+  DEFAULT_TEMPLATES,
+  formatDate,
+  formatMessage,
+  getTemplates,
+  readMoreLink,
+  validateTemplates,
+} from "./messageTemplates";
+
+function channel(settings: Partial<ChannelMapping> = {}): ChannelMapping {
+  return {
+    tags: [],
+    webhookUrl: "https://example.com",
+    channelName: "Test",
+    ...settings,
+  };
+}
+
+describe("message templates", () => {
+  const { channels, defaultChannel, templateSets, locale } = config.teams;
+
+  beforeEach(() => {
+    config.teams.channels = [];
+    config.teams.defaultChannel = undefined;
+    config.teams.templateSets = {
+      default: { solved: "✅ Done" },
+      de: { solved: "✅ Gelöst", answerNow: "Jetzt antworten" },
+    };
+    config.teams.locale = "en-US";
+  });
+
+  afterEach(() => {
+    config.teams.channels = channels;
+    config.teams.defaultChannel = defaultChannel;
+    config.teams.templateSets = templateSets;
+    config.teams.locale = locale;
+  });
+
+  describe("getTemplates", () => {
+    it("layers built-in texts, the default set, the channel's set and its own templates", () => {
+      const german = channel({
+        templateSet: "de",
+        templates: { answerNow: "Antworten" },
+      });
+
+      expect(getTemplates()).toMatchObject({
+        solved: "✅ Done",
+        answerNow: DEFAULT_TEMPLATES.answerNow,
+      });
+      expect(getTemplates(german)).toMatchObject({
+        solved: "✅ Gelöst",
+        answerNow: "Antworten",
+        openQuestion: DEFAULT_TEMPLATES.openQuestion,
+      });
+    });
+  });
+
+  describe("formatMessage", () => {
+    it("fills placeholders, allowing spaces inside the braces", () => {
+      const custom = channel({
+        templates: { reminder: "⏰ Reminder {{ number }}" },
+      });
+
+      expect(formatMessage("reminder", { number: 2 })).toBe(
+        "⏰ Still needs an answer (reminder 2)"
+      );
+      expect(formatMessage("reminder", { number: 3 }, custom)).toBe(
+        "⏰ Reminder 3"
+      );
+    });
+
+    it("leaves placeholders without a value empty", () => {
+      expect(formatMessage("askedBy")).toBe("Asked by ");
+    });
+
+    it("words the read-more link for the channel", () => {
+      expect(
+        readMoreLink(
+          "https://a.example/q/1",
+          channel({ templates: { readMore: "Weiterlesen" } })
+        )
+      ).toEqual({ text: "Weiterlesen", url: "https://a.example/q/1" });
+      expect(readMoreLink("https://a.example/q/1").text).toBe("Read more");
+    });
+  });
+
+  describe("formatDate", () => {
+    const timestamp = Date.UTC(2024, 4, 15, 14, 30) / 1000;
+
+    it("uses the channel's locale and time zone", () => {
+      expect(
+        formatDate(
+          timestamp,
+          channel({ locale: "de-DE", timezone: "Europe/Berlin" })
+        )
+      ).toBe("15.05.2024, 16:30");
+    });
+
+    it("falls back to the configured locale", () => {
+      expect(formatDate(timestamp, channel({ timezone: "UTC" }))).toBe(
+        "May 15, 2024, 2:30 PM"
+      );
+    });
+  });
+
+  describe("validateTemplates", () => {
+    it("accepts valid settings", () => {
+      config.teams.channels = [
+        channel({
+          templateSet: "de",
+          templates: { newAnswer: "💡 {{answers}}" },
+          locale: "de-DE",
+          timezone: "Europe/Berlin",
+        }),
+      ];
+
+      expect(validateTemplates()).toEqual([]);
+    });
+
+    it("reports every problem in sets and channels", () => {
+      config.teams.templateSets = {
+        default: { greeting: "Hi" } as Record<string, string>,
+      };
+      config.teams.channels = [
+        channel({
+          templateSet: "fr",
+          templates: {
+            reminder: "Rappel {{count}}",
+            solved: 42 as unknown as string,
+          },
+          locale: "xx-INVALID-locale-tag",
+          timezone: "Mars/Olympus_Mons",
+          escalation: {
+            afterHours: 24,
+            maxReminders: 1,
+            escalateTo: {
+              webhookUrl: "https://example.com/leads",
+              channelName: "Leads",
+              templates: { bogus: "x" } as Record<string, string>,
+            },
+          },
+        }),
+      ];
+
+      expect(validateTemplates()).toEqual([
+        'Template set "default": unknown template "greeting"',
+        'Channel "Test": unknown template set "fr"',
+        'Channel "Test": template "reminder" uses unknown placeholder {{count}} (allowed: {{number}})',
+        'Channel "Test": template "solved" must be a string',
+        'Channel "Test": unsupported locale "xx-INVALID-locale-tag"',
+        'Channel "Test": unknown time zone "Mars/Olympus_Mons"',
+        'Channel "Leads": unknown template "bogus"',
+      ]);
+    });
+  });
+});
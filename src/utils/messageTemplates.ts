@@ -0,0 +1,207 @@
+import { ChannelMapping, config } from "../config/config";
+import { isValidTimeZone } from "./schedule";
+import { ReadMoreLink } from "./teamsMarkdown";
+
+/**
+ * Built-in English texts. The placeholders a default uses are the only ones
+ * its overrides may use.
+ */
+export const DEFAULT_TEMPLATES = {
+  // New question cards
+  questionTitle: "📝 {{title}}",
+  askedBy: "Asked by {{asker}}",
+  authorLabel: "Author",
+  postedLabel: "Posted",
+  tagsLabel: "Tags",
+  openQuestion: "Open question",
+  answerNow: "Answer now",
+  openInAnswers: "Open in Apache Answers",
+  // Reminders
+  reminder: "⏰ Still needs an answer (reminder {{number}})",
+  escalation: "🚨 Escalated: still needs an answer",
+  unansweredLabel: "Unanswered for",
+  unansweredFor: "{{hours}} hours",
+  // Digests
+  dailyDigest: "📰 Daily digest for {{channel}}",
+  weeklyDigest: "📰 Weekly digest for {{channel}}",
+  digestNewQuestions: "🆕 New questions",
+  digestNewlyAnswered: "✅ Newly answered",
+  digestUnanswered: "❓ Still unanswered",
+  digestMore: "…and {{count}} more",
+  digestNone: "_None_",
+  // Link under truncated question, answer and comment texts
+  readMore: "Read more",
+  // Thread replies
+  newAnswer: "New answer added:\n\n{{answers}}",
+  answer: "{{author}}: {{content}}",
+  solved: "✅ Solved",
+  acceptedAnswer: "Accepted answer by {{author}}: {{content}}",
+  acceptedAnswerRemoved:
+    "↩️ The accepted answer was removed, this question is open again",
+  commentOnQuestion:
+    "💬 New comment on the question by {{author}}: {{content}}",
+  commentOnAnswer: "💬 New comment on an answer by {{author}}: {{content}}",
+  questionRetitled: '✏️ Question retitled from "{{previous}}" to "{{current}}"',
+  questionReopened: "🔓 This question was reopened",
+  questionClosed: "🔒 This question was closed",
+  questionDeleted: "🗑️ This question was deleted",
+  questionPending: "⏳ This question is pending review",
+  questionStatusChanged: "ℹ️ This question's status changed ({{status}})",
+  // Replies to Teams messages posted as questions
+  createdFromTeams: "Teams message posted as question successfully",
+  createdFromTeamsByReaction:
+    "Teams message posted as question successfully (triggered by {{reaction}} reaction)",
+  // Titles of questions created from Teams messages without a usable sentence
+  shortQuestionTitle: "{{title}} (from Microsoft Teams)",
+  untitledQuestion: "Question from Microsoft Teams",
+  untitledQuestionBy: "Question from {{author}} on Microsoft Teams",
+};
+
+export type TemplateName = keyof typeof DEFAULT_TEMPLATES;
+
+export type MessageTemplates = Record<TemplateName, string>;
+
+/**
+ * Text whose wording depends on the channel it is sent to
+ */
+export type ChannelText = (channel?: ChannelMapping) => string;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const DEFAULT_SET = "default";
+
+function getPlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]);
+}
+
+/**
+ * Get the templates of a channel: the built-in texts, overridden by the
+ * "default" set, the channel's `templateSet` and its own `templates`
+ */
+export function getTemplates(channel?: ChannelMapping): MessageTemplates {
+  const sets = config.teams.templateSets;
+  return {
+    ...DEFAULT_TEMPLATES,
+    ...sets[DEFAULT_SET],
+    ...(channel?.templateSet ? sets[channel.templateSet] : {}),
+    ...channel?.templates,
+  } as MessageTemplates;
+}
+
+/**
+ * Fill a channel's template with values
+ */
+export function formatMessage(
+  name: TemplateName,
+  values: Record<string, string | number> = {},
+  channel?: ChannelMapping
+): string {
+  return getTemplates(channel)[name].replace(PLACEHOLDER, (_match, key) =>
+    String(values[key] ?? "")
+  );
+}
+
+/**
+ * Link to the full text of truncated content, in the channel's wording
+ */
+export function readMoreLink(
+  url: string,
+  channel?: ChannelMapping
+): ReadMoreLink {
+  return { text: formatMessage("readMore", {}, channel), url };
+}
+
+/**
+ * Format a Unix timestamp (seconds) in the channel's locale and time zone
+ */
+export function formatDate(
+  timestamp: number,
+  channel?: ChannelMapping
+): string {
+  return new Intl.DateTimeFormat(channel?.locale || config.teams.locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: channel?.timezone,
+  }).format(new Date(timestamp * 1000));
+}
+
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+function validateTemplateSet(
+  label: string,
+  templates: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+  for (const [name, template] of Object.entries(templates)) {
+    if (!(name in DEFAULT_TEMPLATES)) {
+      errors.push(`${label}: unknown template "${name}"`);
+      continue;
+    }
+    if (typeof template !== "string") {
+      errors.push(`${label}: template "${name}" must be a string`);
+      continue;
+    }
+
+    const allowed = getPlaceholders(DEFAULT_TEMPLATES[name as TemplateName]);
+    for (const placeholder of getPlaceholders(template)) {
+      if (!allowed.includes(placeholder)) {
+        errors.push(
+          `${label}: template "${name}" uses unknown placeholder {{${placeholder}}}${
+            allowed.length > 0
+              ? ` (allowed: ${allowed.map((key) => `{{${key}}}`).join(", ")})`
+              : ""
+          }`
+        );
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Check the configured template sets and the templates, locale and time
+ * zone of every channel and escalation target. Returns a description of
+ * each problem found.
+ */
+export function validateTemplates(): string[] {
+  const errors: string[] = [];
+  const sets = config.teams.templateSets;
+  const channels: Array<Partial<ChannelMapping>> = [
+    ...config.teams.channels,
+    ...(config.teams.defaultChannel ? [config.teams.defaultChannel] : []),
+  ];
+  channels.push(
+    ...channels.flatMap((channel) =>
+      channel.escalation?.escalateTo ? [channel.escalation.escalateTo] : []
+    )
+  );
+
+  for (const [setName, templates] of Object.entries(sets)) {
+    errors.push(...validateTemplateSet(`Template set "${setName}"`, templates));
+  }
+  if (config.teams.locale && !isValidLocale(config.teams.locale)) {
+    errors.push(`Unsupported locale "${config.teams.locale}"`);
+  }
+
+  for (const channel of channels) {
+    const label = `Channel "${channel.channelName}"`;
+    if (channel.templateSet && !sets[channel.templateSet]) {
+      errors.push(`${label}: unknown template set "${channel.templateSet}"`);
+    }
+    if (channel.templates) {
+      errors.push(...validateTemplateSet(label, channel.templates));
+    }
+    if (channel.locale && !isValidLocale(channel.locale)) {
+      errors.push(`${label}: unsupported locale "${channel.locale}"`);
+    }
+    if (channel.timezone && !isValidTimeZone(channel.timezone)) {
+      errors.push(`${label}: unknown time zone "${channel.timezone}"`);
+    }
+  }
+  return errors;
+}
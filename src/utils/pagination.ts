@@ -0,0 +1,50 @@
+export interface PaginationOptions {
+  pageSize?: number;
+  maxItems?: number;
+}
+
+export interface Page<T> {
+  list: T[];
+  total?: number;
+}
+
+/**
+ * Walk every page returned by `fetchPage`, yielding items one at a time.
+ * Stops on a short or empty page, once `total` items were seen, or when
+ * `maxItems` is reached.
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number, pageSize: number) => Promise<Page<T>>,
+  pageSize: number,
+  maxItems: number
+): AsyncGenerator<T> {
+  let yielded = 0;
+
+  for (let page = 1; yielded < maxItems; page++) {
+    const { list, total } = await fetchPage(page, pageSize);
+
+    for (const item of list) {
+      if (yielded >= maxItems) {
+        return;
+      }
+      yielded++;
+      yield item;
+    }
+
+    const seen = (page - 1) * pageSize + list.length;
+    if (list.length < pageSize || (total !== undefined && seen >= total)) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collect every item of an async iterable into an array
+ */
+export async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
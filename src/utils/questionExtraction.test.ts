@@ -0,0 +1,119 @@
+import { QuestionRules } from "../config/config";
+import { extractQuestion, validateQuestion } from "./questionExtraction";
+
+const rules: QuestionRules = {
+  titleMinLength: 6,
+  titleMaxLength: 40,
+  bodyMinLength: 6,
+};
+
+const extract = (content: string, author?: string) =>
+  extractQuestion(content, author, rules);
+
+describe("extractQuestion", () => {
+  it("keeps the message as the markdown body", () => {
+    const { body } = extract(
+      '<p>Hi <at>Bob</at>, is <b>staging</b> down?</p><p>See <a href="https://status.example">status</a>.</p>'
+    );
+
+    expect(body).toBe(
+      "Hi @Bob, is **staging** down?\n\nSee [status](https://status.example)."
+    );
+  });
+
+  it("prefers a question long enough to say something as the title", () => {
+    expect(
+      extract(
+        "Morning all! Any ideas? How do I rotate the API keys on staging? Thanks"
+      ).title
+    ).toBe("How do I rotate the API keys on staging?");
+  });
+
+  it("drops greetings, leading mentions and emoji from the title", () => {
+    expect(
+      extract(
+        "<p><at>Team</at> 👋 hi all, the nightly build fails on arm64</p>"
+      ).title
+    ).toBe("The nightly build fails on arm64");
+  });
+
+  it("leaves quoted replies and code out of the title", () => {
+    const { title } = extract(
+      "> Is the cache shared?\n```\nnpm run build\n```\nThe build hangs after the cache restore"
+    );
+
+    expect(title).toBe("The build hangs after the cache restore");
+  });
+
+  it("shows Teams emoji as their characters", () => {
+    const { body } = extract(
+      '<p>Works now <emoji id="1" alt="🎉" title="Party"></emoji> thanks</p>'
+    );
+
+    expect(body).toBe("Works now 🎉 thanks");
+  });
+
+  it("shortens long titles at a word boundary", () => {
+    const { title } = extract(
+      "Why does the deployment pipeline time out whenever the integration tests run in parallel?"
+    );
+
+    expect(Array.from(title).length).toBeLessThanOrEqual(rules.titleMaxLength);
+    expect(title).toBe("Why does the deployment pipeline time…");
+  });
+
+  it("pads titles of short messages", () => {
+    expect(extract("Help")).toEqual({
+      title: "Help (from Microsoft Teams)",
+      body: "Help",
+    });
+  });
+
+  it("names the author when a message has no text", () => {
+    expect(
+      extract('<p><img src="https://a.example/s.png"></p>', "Ann")
+    ).toEqual({
+      title: "Question from Ann on Microsoft Teams",
+      body: "![](https://a.example/s.png)",
+    });
+    expect(extract("").title).toBe("Question from Microsoft Teams");
+  });
+
+  it("shortens the fallback title for long author names", () => {
+    expect(
+      extract("", "Maximilian Alexander Schwarzenegger-Oberhofer").title
+    ).toBe("Question from Maximilian Alexander…");
+  });
+
+  it("never pads the body", () => {
+    expect(extract("ok").body).toBe("ok");
+    expect(extract("<p><at>Bob</at></p>").body).toBe("@Bob");
+  });
+});
+
+describe("validateQuestion", () => {
+  it("accepts questions within the length rules", () => {
+    expect(
+      validateQuestion(extract("How do I rotate the API keys?"), rules)
+    ).toEqual([]);
+  });
+
+  it("rejects messages without enough text for a body", () => {
+    expect(validateQuestion(extract(""), rules)).toEqual([
+      "Body is 0 characters, at least 6 are required",
+    ]);
+    expect(validateQuestion(extract("ok"), rules)).toEqual([
+      "Body is 2 characters, at least 6 are required",
+    ]);
+  });
+
+  it("reports every broken rule, counting characters rather than code units", () => {
+    expect(validateQuestion({ title: "👋👋👋", body: "🎉" }, rules)).toEqual([
+      "Title is 3 characters, at least 6 are required",
+      "Body is 1 characters, at least 6 are required",
+    ]);
+    expect(
+      validateQuestion({ title: "x".repeat(41), body: "Long enough" }, rules)
+    ).toEqual(["Title is 41 characters, at most 40 are allowed"]);
+  });
+});
@@ -0,0 +1,223 @@
+import { config, QuestionRules } from "../config/config";
+import { formatMessage } from "./messageTemplates";
+import { decodeHtmlEntities, htmlToMarkdown } from "./teamsMarkdown";
+
+export interface ExtractedQuestion {
+  title: string;
+  // Markdown
+  body: string;
+}
+
+// Marks mentions in title candidates, so leading ones can be dropped
+const MENTION = "\u0001";
+const LEADING_MENTIONS = /^(\u0001[^\u0001]*\u0001[\s,:;]*)+/;
+const MENTION_MARKERS = /\u0001([^\u0001]*)\u0001/g;
+
+// Openers that say nothing about the question, when followed by punctuation
+// or nothing at all ("Hi all, ...", "Quick question:")
+const GREETING =
+  /^(hi|hello|hey|hiya|dear|greetings|good (morning|afternoon|evening)|morning|quick (question|one)|question|fyi|thanks|thank you|cheers)(\s+(all|everyone|everybody|team|folks|guys|there|people|\u0001[^\u0001]*\u0001))?\s*([,:;.!–—-]+\s*|$)/i;
+
+// Emoji and punctuation a sentence opens with
+const LEADING_SYMBOLS = /^[\p{Extended_Pictographic}\uFE0F\u200D\s,:;!–—-]+/u;
+
+// Question sentences this short are usually "Any ideas?" and say little
+const MIN_QUESTION_WORDS = 5;
+const MIN_SENTENCE_WORDS = 3;
+
+/**
+ * Length in characters (code points), as Apache Answers counts it
+ */
+function charLength(text: string): number {
+  return Array.from(text).length;
+}
+
+function isHtml(text: string): boolean {
+  return /<\/?[a-z][^>]*>/i.test(text);
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Convert a Teams message to markdown, writing mentions with `mention` and
+ * emoji as their characters
+ */
+function toMarkdown(
+  content: string,
+  mention: (name: string) => string
+): string {
+  if (!isHtml(content)) {
+    return decodeHtmlEntities(content).replace(/\r\n?/g, "\n").trim();
+  }
+  const html = content
+    .replace(/<at\b[^>]*>([\s\S]*?)<\/at>/gi, (_match, name: string) =>
+      mention(name)
+    )
+    // Teams emoji are images or <emoji> elements carrying the character
+    .replace(
+      /<(img|emoji)\b([^>]*)>(?:<\/emoji>)?/gi,
+      (tag, name: string, attributes: string) =>
+        name.toLowerCase() === "emoji" ||
+        /schema\.skype\.com\/Emoji/i.test(attributes)
+          ? (/\balt="([^"]*)"/i.exec(attributes)?.[1] ?? "")
+          : tag
+    );
+  return htmlToMarkdown(html);
+}
+
+/**
+ * Lines of prose in markdown: without code blocks, quoted replies, images
+ * and formatting
+ */
+function proseLines(markdown: string): string[] {
+  return markdown
+    .replace(/```[\s\S]*?```/g, "\n")
+    .split("\n")
+    .filter((line) => !/^\s*>/.test(line))
+    .map((line) =>
+      line
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/`([^`]*)`/g, "$1")
+        .replace(/\*\*/g, "")
+        .replace(/(^|\W)_(.+?)_(?=\W|$)/g, "$1$2")
+        .replace(/^\s*([-*]|\d+\.)\s+/, "")
+        .replace(/\s+/g, " ")
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Drop leading mentions, greetings and emoji from a sentence, and its closing
+ * punctuation other than "?" and "!"
+ */
+function cleanSentence(sentence: string): string {
+  let text = sentence;
+  let previous: string;
+  do {
+    previous = text;
+    text = text
+      .replace(LEADING_MENTIONS, "")
+      .replace(GREETING, "")
+      .replace(LEADING_SYMBOLS, "");
+  } while (text !== previous);
+
+  text = text
+    .replace(MENTION_MARKERS, "$1")
+    .replace(/[\s,;:.…–—-]+$/, "")
+    .trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function truncateTitle(title: string, maxLength: number): string {
+  const chars = Array.from(title);
+  if (chars.length <= maxLength) {
+    return title;
+  }
+  const cut = chars.slice(0, maxLength - 1).join("");
+  // Prefer ending on a whole word, unless that loses too much
+  const atWord = cut.replace(/\s+\S*$/, "");
+  return `${(charLength(atWord) >= maxLength / 2 ? atWord : cut).trimEnd()}…`;
+}
+
+/**
+ * Pick a title from the sentences of a message: the first question long
+ * enough to say something, else the first sentence of a few words. Short
+ * messages are padded, and messages without text get a generic title.
+ */
+function pickTitle(
+  sentences: string[],
+  rules: QuestionRules,
+  authorName?: string
+): string {
+  const isLongEnough = (sentence: string) =>
+    charLength(sentence) >= rules.titleMinLength;
+
+  const title =
+    sentences.find(
+      (sentence) =>
+        sentence.endsWith("?") &&
+        isLongEnough(sentence) &&
+        wordCount(sentence) >= MIN_QUESTION_WORDS
+    ) ??
+    sentences.find(
+      (sentence) =>
+        isLongEnough(sentence) && wordCount(sentence) >= MIN_SENTENCE_WORDS
+    ) ??
+    sentences.find(isLongEnough);
+  if (title) {
+    return truncateTitle(title, rules.titleMaxLength);
+  }
+
+  const text = sentences.join(" ");
+  if (isLongEnough(text)) {
+    return truncateTitle(text, rules.titleMaxLength);
+  }
+  if (text) {
+    return truncateTitle(
+      formatMessage("shortQuestionTitle", { title: text }),
+      rules.titleMaxLength
+    );
+  }
+  return truncateTitle(
+    authorName
+      ? formatMessage("untitledQuestionBy", { author: authorName })
+      : formatMessage("untitledQuestion"),
+    rules.titleMaxLength
+  );
+}
+
+/**
+ * Build a question from a Teams message (HTML or plain text). The body is
+ * the message as markdown; the title is its most telling sentence, leaving
+ * out greetings, mentions, quoted replies and code.
+ */
+export function extractQuestion(
+  content: string,
+  authorName?: string,
+  rules: QuestionRules = config.answers.questionRules
+): ExtractedQuestion {
+  const body = toMarkdown(content, (name) => `@${name}`);
+  const sentences = proseLines(
+    toMarkdown(content, (name) => `${MENTION}${name}${MENTION}`)
+  )
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=\S)/))
+    .map(cleanSentence)
+    .filter(Boolean);
+
+  // The body is kept as written, so validateQuestion can reject messages
+  // too short to post
+  return { title: pickTitle(sentences, rules, authorName), body };
+}
+
+/**
+ * Check a question against the site's length rules. Returns a description
+ * of each rule it breaks.
+ */
+export function validateQuestion(
+  question: ExtractedQuestion,
+  rules: QuestionRules = config.answers.questionRules
+): string[] {
+  const errors: string[] = [];
+  const titleLength = charLength(question.title.trim());
+  const bodyLength = charLength(question.body.trim());
+  if (titleLength < rules.titleMinLength) {
+    errors.push(
+      `Title is ${titleLength} characters, at least ${rules.titleMinLength} are required`
+    );
+  }
+  if (titleLength > rules.titleMaxLength) {
+    errors.push(
+      `Title is ${titleLength} characters, at most ${rules.titleMaxLength} are allowed`
+    );
+  }
+  if (bodyLength < rules.bodyMinLength) {
+    errors.push(
+      `Body is ${bodyLength} characters, at least ${rules.bodyMinLength} are required`
+    );
+  }
+  return errors;
+}
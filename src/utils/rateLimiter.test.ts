@@ -0,0 +1,90 @@
+import { RateLimiter, TokenBucket } from "./rateLimiter";
+
+/**
+ * Acquire `count` tokens and record which have been granted
+ */
+function acquireAll(bucket: { acquire(): Promise<void> }, count: number) {
+  const granted: number[] = [];
+  for (let i = 0; i < count; i++) {
+    void bucket.acquire().then(() => granted.push(i));
+  }
+  return granted;
+}
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("lets a burst through, then one request per refill interval", async () => {
+    // 60 per minute: one token per second
+    const bucket = new TokenBucket({ perMinute: 60, burst: 2 });
+    const granted = acquireAll(bucket, 4);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 1]);
+    expect(bucket.getWaiting()).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(granted).toEqual([0, 1]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual([0, 1, 2]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([0, 1, 2, 3]);
+    expect(bucket.getWaiting()).toBe(0);
+  });
+
+  it("refills up to the burst size while idle", async () => {
+    const bucket = new TokenBucket({ perMinute: 60, burst: 3 });
+    await bucket.acquire();
+    await bucket.acquire();
+    await bucket.acquire();
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    const granted = acquireAll(bucket, 4);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(granted).toEqual([0, 1, 2]);
+  });
+
+  it("allows at least one request at a time", async () => {
+    const bucket = new TokenBucket({ perMinute: 60, burst: 0.5 });
+    const granted = acquireAll(bucket, 2);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(granted).toEqual([0]);
+  });
+});
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("keeps a separate bucket per key with its own limit", async () => {
+    const limiter = new RateLimiter((key) =>
+      key === "slow" ? { perMinute: 1, burst: 1 } : { perMinute: 60, burst: 5 }
+    );
+    const slow = acquireAll({ acquire: () => limiter.acquire("slow") }, 2);
+    const fast = acquireAll({ acquire: () => limiter.acquire("fast") }, 3);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(slow).toEqual([0]);
+    expect(fast).toEqual([0, 1, 2]);
+    expect(limiter.getWaiting()).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(slow).toEqual([0, 1]);
+    expect(limiter.getWaiting()).toBe(0);
+  });
+});
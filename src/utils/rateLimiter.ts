@@ -0,0 +1,98 @@
+import { RateLimit } from "../config/config";
+
+/**
+ * Token bucket that hands out tokens in request order. Callers that find
+ * the bucket empty wait until a token has been refilled.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private waiters: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+
+  constructor(limit: RateLimit) {
+    this.capacity = Math.max(1, limit.burst);
+    this.refillPerMs = limit.perMinute / 60000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a token
+   */
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiters.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Number of callers waiting for a token
+   */
+  getWaiting(): number {
+    return this.waiters.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.waiters.length > 0 && this.tokens >= 1) {
+      this.tokens--;
+      this.waiters.shift()!();
+    }
+
+    if (this.waiters.length > 0 && !this.timer) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
+
+/**
+ * One token bucket per key (e.g. per webhook URL), created on first use
+ */
+export class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private getLimit: (key: string) => RateLimit;
+
+  constructor(getLimit: (key: string) => RateLimit) {
+    this.getLimit = getLimit;
+  }
+
+  /**
+   * Wait until a request for `key` may be sent
+   */
+  async acquire(key: string): Promise<void> {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this.getLimit(key));
+      this.buckets.set(key, bucket);
+    }
+    await bucket.acquire();
+  }
+
+  /**
+   * Total number of requests waiting across all keys
+   */
+  getWaiting(): number {
+    let waiting = 0;
+    for (const bucket of this.buckets.values()) {
+      waiting += bucket.getWaiting();
+    }
+    return waiting;
+  }
+}
@@ -0,0 +1,163 @@
+import { AnswerPost } from "../types/answers";
+import { ChannelMapping } from "../config/config";
+import logger from "../services/logger";
+import {
+  findMatchingRule,
+  getPostTagSlugs,
+  matchesRule,
+  validateRoutingRules,
+} from "./routingRules";
+
+function post(overrides: {
+  tags?: Array<[string, string?]>;
+  author?: string;
+  rank?: number;
+  title?: string;
+  description?: string;
+}): AnswerPost {
+  return {
+    id: "1",
+    title: overrides.title ?? "How do I deploy?",
+    description: overrides.description ?? "Details",
+    tags: (overrides.tags ?? []).map(([slug, mainTag]) => ({
+      slug_name: slug,
+      main_tag_slug_name: mainTag ?? "",
+    })),
+    operator: {
+      username: overrides.author ?? "alice",
+      rank: overrides.rank ?? 100,
+    },
+  } as AnswerPost;
+}
+
+function channel(settings: Partial<ChannelMapping>): ChannelMapping {
+  return {
+    tags: [],
+    webhookUrl: "https://example.com",
+    channelName: "Test",
+    ...settings,
+  };
+}
+
+describe("getPostTagSlugs", () => {
+  it("includes the main tag of synonyms, lowercased", () => {
+    expect(
+      getPostTagSlugs(post({ tags: [["JS", "JavaScript"], ["node"]] }))
+    ).toEqual(new Set(["js", "javascript", "node"]));
+  });
+});
+
+describe("matchesRule", () => {
+  const tagged = post({ tags: [["js", "javascript"], ["react"]] });
+
+  it("matches any, all and excluded tags, including synonyms", () => {
+    expect(matchesRule({ anyTags: ["python", "javascript"] }, tagged)).toBe(
+      true
+    );
+    expect(matchesRule({ anyTags: ["python"] }, tagged)).toBe(false);
+    expect(matchesRule({ allTags: ["JS", "react"] }, tagged)).toBe(true);
+    expect(matchesRule({ allTags: ["js", "vue"] }, tagged)).toBe(false);
+    expect(matchesRule({ excludeTags: ["react"] }, tagged)).toBe(false);
+  });
+
+  it("matches authors case-insensitively", () => {
+    expect(matchesRule({ authors: ["Alice"] }, post({}))).toBe(true);
+    expect(matchesRule({ authors: ["bob"] }, post({}))).toBe(false);
+    expect(matchesRule({ excludeAuthors: ["ALICE"] }, post({}))).toBe(false);
+  });
+
+  it("requires a minimum reputation", () => {
+    expect(matchesRule({ minReputation: 100 }, post({ rank: 100 }))).toBe(true);
+    expect(matchesRule({ minReputation: 101 }, post({ rank: 100 }))).toBe(
+      false
+    );
+  });
+
+  it("matches title and body patterns case-insensitively", () => {
+    const deploy = post({
+      title: "Deploy fails",
+      description: "Error: ECONNRESET",
+    });
+
+    expect(matchesRule({ titlePattern: "^deploy" }, deploy)).toBe(true);
+    expect(matchesRule({ bodyPattern: "econn(reset|refused)" }, deploy)).toBe(
+      true
+    );
+    expect(matchesRule({ titlePattern: "^build" }, deploy)).toBe(false);
+  });
+
+  it("requires every condition of a rule", () => {
+    const rule = { anyTags: ["react"], authors: ["bob"] };
+
+    expect(matchesRule(rule, tagged)).toBe(false);
+    expect(matchesRule(rule, post({ tags: [["react"]], author: "bob" }))).toBe(
+      true
+    );
+  });
+
+  it("never matches an invalid pattern", () => {
+    jest.spyOn(logger, "error").mockImplementation(() => logger);
+    expect(matchesRule({ titlePattern: "(" }, post({ title: "(" }))).toBe(
+      false
+    );
+  });
+});
+
+describe("findMatchingRule", () => {
+  const react = post({ tags: [["react"]] });
+
+  it("matches every post when a channel has no tags or rules", () => {
+    expect(findMatchingRule(channel({}), react)).toBe("all posts");
+  });
+
+  it("matches any of the channel's tags when it has no rules", () => {
+    expect(findMatchingRule(channel({ tags: ["react", "vue"] }), react)).toBe(
+      "tags [react, vue]"
+    );
+    expect(findMatchingRule(channel({ tags: ["vue"] }), react)).toBeNull();
+  });
+
+  it("names the first matching rule", () => {
+    const routed = channel({
+      rules: [
+        { name: "Vue", anyTags: ["vue"] },
+        { anyTags: ["react"] },
+        { name: "Also React", anyTags: ["react"] },
+      ],
+    });
+
+    expect(findMatchingRule(routed, react)).toBe("rule #2");
+    expect(findMatchingRule(routed, post({ tags: [["vue"]] }))).toBe("Vue");
+    expect(findMatchingRule(routed, post({}))).toBeNull();
+  });
+
+  it("treats non-empty tags as one more rule", () => {
+    const routed = channel({ tags: ["react"], rules: [{ authors: ["bob"] }] });
+
+    expect(findMatchingRule(routed, react)).toBe("tags [react]");
+    expect(findMatchingRule(routed, post({ author: "bob" }))).toBe("rule #1");
+    expect(findMatchingRule(routed, post({}))).toBeNull();
+  });
+});
+
+describe("validateRoutingRules", () => {
+  it("reports patterns that do not compile", () => {
+    const errors = validateRoutingRules([
+      channel({
+        rules: [
+          { titlePattern: "(" },
+          { name: "Body", bodyPattern: "[" },
+          { name: "Fine", titlePattern: "^a+$", bodyPattern: "b" },
+        ],
+      }),
+    ]);
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(
+      /^Channel "Test" rule #1: Invalid regular expression/
+    );
+    expect(errors[1]).toMatch(
+      /^Channel "Test" rule "Body": Invalid regular expression/
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { AnswerPost } from "../types/answers";
+import { ChannelMapping, RoutingRule } from "../config/config";
+import logger from "../services/logger";
+
+const patternCache: Map<string, RegExp | null> = new Map();
+
+/**
+ * Compile a case-insensitive pattern once; invalid patterns never match
+ */
+function compilePattern(pattern: string): RegExp | null {
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(pattern, "i"));
+    } catch (error) {
+      logger.error(`❌ Invalid routing pattern "${pattern}":`, error);
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern)!;
+}
+
+/**
+ * Get a post's tag slugs, including the main tag of every synonym so that
+ * rules can be written against canonical tags
+ */
+export function getPostTagSlugs(post: AnswerPost): Set<string> {
+  const slugs = new Set<string>();
+  for (const tag of post.tags) {
+    slugs.add(tag.slug_name.toLowerCase());
+    if (tag.main_tag_slug_name) {
+      slugs.add(tag.main_tag_slug_name.toLowerCase());
+    }
+  }
+  return slugs;
+}
+
+/**
+ * Whether a post satisfies every condition of a rule
+ */
+export function matchesRule(rule: RoutingRule, post: AnswerPost): boolean {
+  const tags = getPostTagSlugs(post);
+  const hasTag = (tag: string) => tags.has(tag.toLowerCase());
+  const author = post.operator.username.toLowerCase();
+  const isAuthor = (username: string) => username.toLowerCase() === author;
+
+  if (rule.anyTags && rule.anyTags.length > 0 && !rule.anyTags.some(hasTag)) {
+    return false;
+  }
+  if (rule.allTags && !rule.allTags.every(hasTag)) {
+    return false;
+  }
+  if (rule.excludeTags && rule.excludeTags.some(hasTag)) {
+    return false;
+  }
+  if (rule.authors && !rule.authors.some(isAuthor)) {
+    return false;
+  }
+  if (rule.excludeAuthors && rule.excludeAuthors.some(isAuthor)) {
+    return false;
+  }
+  if (
+    rule.minReputation !== undefined &&
+    post.operator.rank < rule.minReputation
+  ) {
+    return false;
+  }
+  if (
+    rule.titlePattern &&
+    !compilePattern(rule.titlePattern)?.test(post.title)
+  ) {
+    return false;
+  }
+  if (
+    rule.bodyPattern &&
+    !compilePattern(rule.bodyPattern)?.test(post.description)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Find the rule through which a channel accepts a post, or null when it
+ * does not. Channels without `rules` keep the "any of `tags`" behaviour,
+ * where empty tags match every post; with `rules`, non-empty `tags` act as
+ * one more rule.
+ */
+export function findMatchingRule(
+  channel: ChannelMapping,
+  post: AnswerPost
+): string | null {
+  if (!channel.rules || channel.rules.length === 0) {
+    if (channel.tags.length === 0) {
+      return "all posts";
+    }
+    return matchesRule({ anyTags: channel.tags }, post)
+      ? `tags [${channel.tags.join(", ")}]`
+      : null;
+  }
+
+  if (channel.tags.length > 0 && matchesRule({ anyTags: channel.tags }, post)) {
+    return `tags [${channel.tags.join(", ")}]`;
+  }
+
+  const index = channel.rules.findIndex((rule) => matchesRule(rule, post));
+  if (index === -1) {
+    return null;
+  }
+  return channel.rules[index].name || `rule #${index + 1}`;
+}
+
+/**
+ * Check that the title and body patterns of every routing rule compile.
+ * Returns a description of each invalid pattern.
+ */
+export function validateRoutingRules(channels: ChannelMapping[]): string[] {
+  const errors: string[] = [];
+  for (const channel of channels) {
+    (channel.rules || []).forEach((rule, index) => {
+      const label = `Channel "${channel.channelName}" rule ${
+        rule.name ? `"${rule.name}"` : `#${index + 1}`
+      }`;
+      for (const pattern of [rule.titlePattern, rule.bodyPattern]) {
+        if (pattern === undefined) {
+          continue;
+        }
+        try {
+          new RegExp(pattern, "i");
+        } catch (error) {
+          errors.push(`${label}: ${(error as Error).message}`);
+        }
+      }
+    });
+  }
+  return errors;
+}
@@ -0,0 +1,243 @@
+import { ChannelMapping } from "../config/config";
+import {
+  fromZonedWallClock,
+  getMostRecentOccurrence,
+  isValidTimeZone,
+  isWithinWindow,
+  parseTimeOfDay,
+  toZonedWallClock,
+  validateSchedules,
+} from "./schedule";
+
+const at = (iso: string) => new Date(iso);
+
+function channel(settings: Partial<ChannelMapping>): ChannelMapping {
+  return {
+    tags: [],
+    webhookUrl: "https://example.com",
+    channelName: "Test",
+    ...settings,
+  };
+}
+
+describe("parseTimeOfDay", () => {
+  it("converts HH:MM to minutes after midnight", () => {
+    expect(parseTimeOfDay("00:00")).toBe(0);
+    expect(parseTimeOfDay("9:05")).toBe(545);
+    expect(parseTimeOfDay(" 23:59 ")).toBe(1439);
+  });
+
+  it.each(["24:00", "12:60", "9", "09:5", "noon", ""])("rejects %p", (time) => {
+    expect(() => parseTimeOfDay(time)).toThrow("expected HH:MM");
+  });
+});
+
+describe("time zones", () => {
+  it("knows IANA names and rejects unknown ones", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+
+  it("reads the wall clock of a time zone and converts it back", () => {
+    const instant = at("2024-07-01T14:00:00Z");
+    const wallClock = toZonedWallClock(instant, "Asia/Kolkata");
+
+    expect(wallClock.toISOString()).toBe("2024-07-01T19:30:00.000Z");
+    expect(fromZonedWallClock(wallClock, "Asia/Kolkata")).toEqual(instant);
+  });
+
+  it("converts wall clocks on both sides of a DST change", () => {
+    const before = toZonedWallClock(
+      at("2024-03-10T06:30:00Z"),
+      "America/New_York"
+    );
+    const after = toZonedWallClock(
+      at("2024-03-10T07:30:00Z"),
+      "America/New_York"
+    );
+
+    expect(before.toISOString()).toBe("2024-03-10T01:30:00.000Z");
+    expect(after.toISOString()).toBe("2024-03-10T03:30:00.000Z");
+    expect(fromZonedWallClock(after, "America/New_York")).toEqual(
+      at("2024-03-10T07:30:00Z")
+    );
+  });
+});
+
+describe("getMostRecentOccurrence", () => {
+  it("returns today's time once it has passed", () => {
+    expect(
+      getMostRecentOccurrence(
+        at("2024-05-15T10:00:00Z"),
+        "09:00",
+        undefined,
+        "UTC"
+      )
+    ).toEqual(at("2024-05-15T09:00:00Z"));
+  });
+
+  it("returns yesterday's time when today's is still ahead", () => {
+    expect(
+      getMostRecentOccurrence(
+        at("2024-05-15T08:00:00Z"),
+        "09:00",
+        undefined,
+        "UTC"
+      )
+    ).toEqual(at("2024-05-14T09:00:00Z"));
+  });
+
+  it("uses the local time of the channel's time zone", () => {
+    // 09:00 in Tokyo is midnight UTC
+    expect(
+      getMostRecentOccurrence(
+        at("2024-05-15T03:00:00Z"),
+        "09:00",
+        undefined,
+        "Asia/Tokyo"
+      )
+    ).toEqual(at("2024-05-15T00:00:00Z"));
+  });
+
+  it("keeps the local time across the spring-forward change", () => {
+    // 08:00 EDT on the day after the change; the last 09:00 was on the day
+    // of the change, already in EDT
+    expect(
+      getMostRecentOccurrence(
+        at("2024-03-11T12:00:00Z"),
+        "09:00",
+        undefined,
+        "America/New_York"
+      )
+    ).toEqual(at("2024-03-10T13:00:00Z"));
+  });
+
+  it("keeps the local time across the fall-back change", () => {
+    // 07:00 CET on the day after the change; the last 09:00 was on the day
+    // of the change, already in CET
+    expect(
+      getMostRecentOccurrence(
+        at("2024-10-28T06:00:00Z"),
+        "09:00",
+        undefined,
+        "Europe/Berlin"
+      )
+    ).toEqual(at("2024-10-27T08:00:00Z"));
+  });
+
+  it("goes back to the given day of the week", () => {
+    // Wednesday; the last Monday 09:00 UTC was two days earlier
+    expect(
+      getMostRecentOccurrence(at("2024-05-15T10:00:00Z"), "09:00", 1, "UTC")
+    ).toEqual(at("2024-05-13T09:00:00Z"));
+  });
+
+  it("goes back a full week when this week's occurrence is still ahead", () => {
+    // Monday 08:00 UTC
+    expect(
+      getMostRecentOccurrence(at("2024-05-13T08:00:00Z"), "09:00", 1, "UTC")
+    ).toEqual(at("2024-05-06T09:00:00Z"));
+  });
+
+  it("finds last week's occurrence across a DST change", () => {
+    // Monday after the spring-forward change, before 09:00 EDT; last Monday
+    // 09:00 was still EST
+    expect(
+      getMostRecentOccurrence(
+        at("2024-03-11T12:00:00Z"),
+        "09:00",
+        1,
+        "America/New_York"
+      )
+    ).toEqual(at("2024-03-04T14:00:00Z"));
+  });
+});
+
+describe("isWithinWindow", () => {
+  const officeHours = (iso: string, days?: number[], timeZone = "UTC") =>
+    isWithinWindow(at(iso), "09:00", "17:00", days, timeZone);
+  const overnight = (iso: string, days?: number[]) =>
+    isWithinWindow(at(iso), "22:00", "06:00", days, "UTC");
+
+  it("checks a daytime window", () => {
+    expect(officeHours("2024-05-15T09:00:00Z")).toBe(true);
+    expect(officeHours("2024-05-15T16:59:00Z")).toBe(true);
+    expect(officeHours("2024-05-15T17:00:00Z")).toBe(false);
+    expect(officeHours("2024-05-15T08:59:00Z")).toBe(false);
+  });
+
+  it("uses the local time of the given time zone", () => {
+    // 10:00 and 18:00 EDT
+    expect(
+      officeHours("2024-07-01T14:00:00Z", undefined, "America/New_York")
+    ).toBe(true);
+    expect(
+      officeHours("2024-07-01T22:00:00Z", undefined, "America/New_York")
+    ).toBe(false);
+  });
+
+  it("runs overnight windows past midnight", () => {
+    expect(overnight("2024-05-15T23:00:00Z")).toBe(true);
+    expect(overnight("2024-05-15T05:59:00Z")).toBe(true);
+    expect(overnight("2024-05-15T06:00:00Z")).toBe(false);
+    expect(overnight("2024-05-15T12:00:00Z")).toBe(false);
+  });
+
+  it("counts the hours after midnight towards the day the window opened", () => {
+    // 2024-03-08 is a Friday (5)
+    expect(overnight("2024-03-08T23:00:00Z", [5])).toBe(true);
+    expect(overnight("2024-03-09T02:00:00Z", [5])).toBe(true);
+    expect(overnight("2024-03-08T02:00:00Z", [5])).toBe(false);
+  });
+
+  it("only applies on the listed days", () => {
+    const weekdays = [1, 2, 3, 4, 5];
+    expect(officeHours("2024-03-08T10:00:00Z", weekdays)).toBe(true);
+    // Saturday
+    expect(officeHours("2024-03-09T10:00:00Z", weekdays)).toBe(false);
+  });
+});
+
+describe("validateSchedules", () => {
+  it("accepts valid digests and delivery windows", () => {
+    expect(
+      validateSchedules([
+        channel({
+          digest: { mode: "weekly", time: "08:30", dayOfWeek: 1 },
+          deliveryWindow: { start: "22:00", end: "06:00", days: [0, 6] },
+        }),
+      ])
+    ).toEqual([]);
+  });
+
+  it("reports every invalid setting", () => {
+    const errors = validateSchedules([
+      channel({
+        digest: { mode: "weekly", time: "25:00", dayOfWeek: 7 },
+        deliveryWindow: { start: "9", end: "17:00", days: [1, 8] },
+      }),
+    ]);
+
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toContain('Channel "Test" digest time');
+    expect(errors[1]).toContain("dayOfWeek");
+    expect(errors[2]).toContain("delivery window start");
+    expect(errors[3]).toContain("delivery window days");
+  });
+
+  it("rejects a delivery window that would never open", () => {
+    expect(
+      validateSchedules([
+        channel({ deliveryWindow: { start: "09:00", end: "9:00" } }),
+      ])
+    ).toEqual([
+      'Channel "Test": delivery window start and end are both 09:00; the window would never open',
+    ]);
+  });
+
+  it("rejects unknown digest modes", () => {
+    expect(
+      validateSchedules([channel({ digest: { mode: "hourly" as "daily" } })])
+    ).toEqual(['Channel "Test": unknown digest mode "hourly"']);
+  });
+});
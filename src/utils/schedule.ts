@@ -0,0 +1,207 @@
+import { ChannelMapping } from "../config/config";
+
+/**
+ * Parse a "HH:MM" time of day into minutes after midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) {
+    throw new Error(`Invalid time of day "${time}", expected HH:MM`);
+  }
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) {
+    throw new Error(`Invalid time of day "${time}", expected HH:MM`);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Get the wall-clock time of `date` in a time zone, expressed as a Date whose
+ * UTC fields hold the local fields (server time zone when none is given)
+ */
+export function toZonedWallClock(date: Date, timeZone?: string): Date {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const field = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find((part) => part.type === type)?.value || "0", 10);
+
+  return new Date(
+    Date.UTC(
+      field("year"),
+      field("month") - 1,
+      field("day"),
+      field("hour"),
+      field("minute"),
+      field("second"),
+      date.getMilliseconds()
+    )
+  );
+}
+
+/**
+ * Convert a wall-clock Date produced by toZonedWallClock back to a real instant
+ */
+export function fromZonedWallClock(wallClock: Date, timeZone?: string): Date {
+  // Guess with the current offset, then correct once for DST transitions
+  let instant = new Date(wallClock.getTime());
+  for (let i = 0; i < 2; i++) {
+    const offset =
+      toZonedWallClock(instant, timeZone).getTime() - instant.getTime();
+    instant = new Date(wallClock.getTime() - offset);
+  }
+  return instant;
+}
+
+/**
+ * Check whether a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the most recent moment at or before `now` that falls on the given
+ * local time of day (and, if given, day of week where 0 is Sunday)
+ */
+export function getMostRecentOccurrence(
+  now: Date,
+  time: string,
+  dayOfWeek?: number,
+  timeZone?: string
+): Date {
+  const minutes = parseTimeOfDay(time);
+  const local = toZonedWallClock(now, timeZone);
+  const candidate = new Date(local);
+
+  let daysBack = 0;
+  if (dayOfWeek !== undefined) {
+    daysBack = (candidate.getUTCDay() - dayOfWeek + 7) % 7;
+  }
+  candidate.setUTCDate(candidate.getUTCDate() - daysBack);
+  candidate.setUTCHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+
+  // Today's (or this week's) occurrence has not happened yet
+  if (candidate.getTime() > local.getTime()) {
+    candidate.setUTCDate(
+      candidate.getUTCDate() - (dayOfWeek !== undefined ? 7 : 1)
+    );
+  }
+
+  return fromZonedWallClock(candidate, timeZone);
+}
+
+/**
+ * Whether `now` falls inside a daily local-time window. Windows whose end is
+ * before their start run overnight (e.g. 22:00–06:00).
+ */
+export function isWithinWindow(
+  now: Date,
+  start: string,
+  end: string,
+  days?: number[],
+  timeZone?: string
+): boolean {
+  const local = toZonedWallClock(now, timeZone);
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+
+  let inWindow: boolean;
+  let windowDay = local.getUTCDay();
+  if (startMinutes <= endMinutes) {
+    inWindow = minutes >= startMinutes && minutes < endMinutes;
+  } else {
+    inWindow = minutes >= startMinutes || minutes < endMinutes;
+    // After midnight the window belongs to the previous day
+    if (minutes < endMinutes) {
+      windowDay = (windowDay + 6) % 7;
+    }
+  }
+
+  return inWindow && (!days || days.includes(windowDay));
+}
+
+function isDayOfWeek(day: unknown): boolean {
+  return Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6;
+}
+
+function isSameTime(start: unknown, end: unknown): boolean {
+  try {
+    return parseTimeOfDay(String(start)) === parseTimeOfDay(String(end));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the digest and delivery window settings of channels. Returns a
+ * description of each invalid setting.
+ */
+export function validateSchedules(channels: ChannelMapping[]): string[] {
+  const errors: string[] = [];
+  const checkTime = (label: string, time: unknown) => {
+    try {
+      parseTimeOfDay(String(time));
+    } catch (error) {
+      errors.push(`${label}: ${(error as Error).message}`);
+    }
+  };
+
+  for (const channel of channels) {
+    const label = `Channel "${channel.channelName}"`;
+    const { digest, deliveryWindow } = channel;
+
+    if (digest) {
+      if (!["immediate", "daily", "weekly"].includes(digest.mode)) {
+        errors.push(`${label}: unknown digest mode "${digest.mode}"`);
+      }
+      if (digest.time !== undefined) {
+        checkTime(`${label} digest time`, digest.time);
+      }
+      if (digest.dayOfWeek !== undefined && !isDayOfWeek(digest.dayOfWeek)) {
+        errors.push(
+          `${label}: digest dayOfWeek must be 0 (Sunday) to 6, got ${digest.dayOfWeek}`
+        );
+      }
+    }
+
+    if (deliveryWindow) {
+      checkTime(`${label} delivery window start`, deliveryWindow.start);
+      checkTime(`${label} delivery window end`, deliveryWindow.end);
+      if (isSameTime(deliveryWindow.start, deliveryWindow.end)) {
+        // isWithinWindow never opens an empty window
+        errors.push(
+          `${label}: delivery window start and end are both ${deliveryWindow.start}; the window would never open`
+        );
+      }
+      if (
+        deliveryWindow.days !== undefined &&
+        !(
+          Array.isArray(deliveryWindow.days) &&
+          deliveryWindow.days.every(isDayOfWeek)
+        )
+      ) {
+        errors.push(
+          `${label}: delivery window days must be numbers from 0 (Sunday) to 6`
+        );
+      }
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,156 @@
+import {
+  decodeHtmlEntities,
+  htmlToMarkdown,
+  renderForTeams,
+  renderToContainer,
+  renderToText,
+} from "./teamsMarkdown";
+
+describe("decodeHtmlEntities", () => {
+  it("decodes named, decimal and hex entities", () => {
+    expect(
+      decodeHtmlEntities("a &amp; b &lt;c&gt; &#39;d&#x27; &hellip;")
+    ).toBe("a & b <c> 'd' …");
+  });
+
+  it("leaves unknown and out-of-range entities alone", () => {
+    expect(decodeHtmlEntities("&bogus; &#0; &#x110000;")).toBe(
+      "&bogus; &#0; &#x110000;"
+    );
+  });
+});
+
+describe("htmlToMarkdown", () => {
+  it("converts inline formatting, links and images", () => {
+    expect(
+      htmlToMarkdown(
+        '<p><strong>Bold</strong>, <em>italic</em>, <code>x</code> and <a href="https://a.example/?q=1&amp;r=2">a link</a></p><p><img src="https://a.example/i.png" alt="chart"></p>'
+      )
+    ).toBe(
+      "**Bold**, _italic_, `x` and [a link](https://a.example/?q=1&r=2)\n\n![chart](https://a.example/i.png)"
+    );
+  });
+
+  it("numbers ordered lists and bullets unordered ones", () => {
+    expect(
+      htmlToMarkdown("<ol><li>one</li><li>two</li></ol><ul><li>a</li></ul>")
+    ).toBe("1. one\n2. two\n\n- a");
+  });
+
+  it("keeps code blocks verbatim with their language", () => {
+    expect(
+      htmlToMarkdown(
+        '<p>Try:</p><pre><code class="language-ts">const a = 1 &lt; 2;\n<b>not bold</b>\n</code></pre>'
+      )
+    ).toBe("Try:\n\n```ts\nconst a = 1 < 2;\nnot bold\n```");
+  });
+
+  it("quotes blockquotes line by line", () => {
+    expect(
+      htmlToMarkdown("<blockquote><p>first</p><p>second</p></blockquote>")
+    ).toBe("> first\n>\n> second");
+  });
+});
+
+describe("renderForTeams", () => {
+  it("splits text from fenced code blocks", () => {
+    const { blocks, truncated } = renderForTeams(
+      "Intro\n\n```js\nconsole.log(1);\n```\n\nOutro"
+    );
+
+    expect(truncated).toBe(false);
+    expect(blocks).toEqual([
+      { kind: "text", text: "Intro" },
+      { kind: "code", text: "console.log(1);", language: "js" },
+      { kind: "text", text: "Outro" },
+    ]);
+  });
+
+  it("rewrites markdown Teams cannot show", () => {
+    const { blocks } = renderForTeams(
+      '# Title\n\n* item\n\n> quoted\n\n~~gone~~ ![shot](https://a.example/s.png "Screenshot")\n\n---'
+    );
+
+    expect(blocks).toEqual([
+      {
+        kind: "text",
+        text: "**Title**\n\n- item\n\n_quoted_\n\ngone [🖼️ shot](https://a.example/s.png)",
+      },
+    ]);
+  });
+
+  it("renders HTML sources", () => {
+    expect(renderToText("<p>Hello <b>world</b></p>", { format: "html" })).toBe(
+      "Hello **world**"
+    );
+  });
+
+  it("runs an unclosed fence to the end", () => {
+    expect(renderForTeams("Text\n```\ncode").blocks).toEqual([
+      { kind: "text", text: "Text" },
+      { kind: "code", text: "code", language: undefined },
+    ]);
+  });
+
+  it("truncates at a word boundary and adds the given read-more link", () => {
+    const { blocks, truncated } = renderForTeams(
+      "The quick brown fox jumps over the lazy dog and keeps running far away",
+      {
+        maxLength: 40,
+        readMore: { text: "Weiterlesen", url: "https://a.example/q/1" },
+      }
+    );
+
+    expect(truncated).toBe(true);
+    expect(blocks).toEqual([
+      { kind: "text", text: "The quick brown fox jumps over the lazy…" },
+      { kind: "text", text: "[Weiterlesen](https://a.example/q/1)" },
+    ]);
+  });
+
+  it("never cuts inside a link", () => {
+    const text = renderToText(
+      "Some words here and then [a rather long link label](https://a.example/very/long/path) after",
+      { maxLength: 50 }
+    );
+
+    expect(text).toBe("Some words here and then…");
+  });
+
+  it("closes bold markup left open by the cut", () => {
+    const text = renderToText(
+      "Intro words **bold text that goes on and on for a while** end",
+      { maxLength: 40 }
+    );
+
+    expect(text).toBe("Intro words **bold text that goes on**…");
+  });
+
+  it("keeps whole lines of a truncated code block", () => {
+    const { blocks } = renderForTeams(
+      "```\nline one\nline two\nline three\n```",
+      { maxLength: 20 }
+    );
+
+    expect(blocks).toEqual([
+      { kind: "code", text: "line one\nline two\n…", language: undefined },
+    ]);
+  });
+});
+
+describe("renderToContainer", () => {
+  it("shows code blocks in a monospace font", () => {
+    const container = renderToContainer("Text\n\n```\ncode\n```") as {
+      items: Array<{ text: string; fontType?: string }>;
+    };
+
+    expect(container.items.map((item) => item.text)).toEqual(["Text", "code"]);
+    expect(container.items[1].fontType).toBe("monospace");
+  });
+
+  it("returns an empty text block for empty content", () => {
+    const container = renderToContainer("") as { items: unknown[] };
+
+    expect(container.items).toHaveLength(1);
+  });
+});
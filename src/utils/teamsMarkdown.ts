@@ -0,0 +1,354 @@
+import { CardElement } from "../types/adaptiveCards";
+import { container, textBlock } from "./adaptiveCardBuilder";
+
+export interface RenderOptions {
+  // Format of the source text; Answers stores markdown, `Answer.html` is HTML
+  format?: "markdown" | "html";
+  // Approximate number of characters to keep before truncating
+  maxLength?: number;
+  // Link appended when the content was truncated
+  readMore?: ReadMoreLink;
+}
+
+export interface ReadMoreLink {
+  text: string;
+  url: string;
+}
+
+export interface RenderedBlock {
+  kind: "text" | "code";
+  text: string;
+  language?: string;
+}
+
+export interface RenderedContent {
+  blocks: RenderedBlock[];
+  truncated: boolean;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  laquo: "«",
+  raquo: "»",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+/**
+ * Decode named and numeric HTML entities
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] === "#") {
+        const codePoint =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : entity;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+/**
+ * Read an attribute value from the attribute part of an HTML tag
+ */
+function getAttribute(attributes: string, name: string): string {
+  const match = new RegExp(
+    `\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`,
+    "i"
+  ).exec(attributes);
+  return match ? decodeHtmlEntities(match[2] ?? match[3] ?? match[4]) : "";
+}
+
+/**
+ * Convert rendered Answers HTML into markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  let text = html.replace(/\r\n?/g, "\n");
+
+  // Set code blocks aside so nothing else touches their contents
+  const codeBlocks: string[] = [];
+  text = text.replace(
+    /<pre[^>]*>\s*(?:<code([^>]*)>)?([\s\S]*?)(?:<\/code>)?\s*<\/pre>/gi,
+    (_match, codeAttributes: string | undefined, code: string) => {
+      const language =
+        /language-([\w+-]+)/.exec(codeAttributes || "")?.[1] || "";
+      const body = decodeHtmlEntities(code.replace(/<[^>]+>/g, ""));
+      codeBlocks.push(`\`\`\`${language}\n${body.replace(/\n+$/, "")}\n\`\`\``);
+      return `\n\n\u0000${codeBlocks.length - 1}\u0000\n\n`;
+    }
+  );
+
+  // Number ordered list items before the generic list handling
+  text = text.replace(
+    /<ol[^>]*>([\s\S]*?)<\/ol>/gi,
+    (_match, items: string) => {
+      let index = 0;
+      return `\n${items.replace(/<li[^>]*>/gi, () => `\n${++index}. `)}\n`;
+    }
+  );
+
+  text = text
+    .replace(/<img([^>]*)>/gi, (_match, attributes: string) => {
+      const src = getAttribute(attributes, "src");
+      return src ? `![${getAttribute(attributes, "alt")}](${src})` : "";
+    })
+    .replace(
+      /<a([^>]*)>([\s\S]*?)<\/a>/gi,
+      (_match, attributes: string, label: string) => {
+        const href = getAttribute(attributes, "href");
+        const plain = label.replace(/<[^>]+>/g, "").trim();
+        return href ? `[${plain || href}](${href})` : plain;
+      }
+    )
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, "`$1`")
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**")
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, "_$2_")
+    .replace(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi, "\n\n**$1**\n\n")
+    .replace(
+      /<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi,
+      (_match, quote: string) =>
+        `\n\n${quote
+          .replace(/<\/?p[^>]*>/gi, "\n")
+          .trim()
+          .split("\n")
+          .map((line) => `> ${line.trim()}`)
+          .join("\n")}\n\n`
+    )
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?(p|div|ul|ol|table|tr|h[1-6])[^>]*>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeHtmlEntities(text)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(
+      /\u0000(\d+)\u0000/g,
+      (_match, index: string) => codeBlocks[parseInt(index, 10)]
+    )
+    .trim();
+}
+
+/**
+ * Rewrite markdown outside code blocks into the subset Teams renders:
+ * bold, italics, links and lists
+ */
+function toTeamsMarkdown(markdown: string): string {
+  let text = /<[a-z!/][^>]*>/i.test(markdown)
+    ? htmlToMarkdown(markdown)
+    : decodeHtmlEntities(markdown);
+
+  text = text
+    // Teams cannot show images inline, link to them instead
+    .replace(
+      /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g,
+      (_match, alt: string, src: string) =>
+        `[🖼️ ${alt.trim() || "image"}](${src})`
+    )
+    // Drop link titles, which Teams shows as part of the URL
+    .replace(/\]\(\s*<?([^)\s>]+)>?\s+"[^"]*"\s*\)/g, "]($1)")
+    .replace(/^ {0,3}([-*_])(\s*\1){2,}\s*$/gm, "")
+    .replace(/^ {0,3}#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/gm, "**$1**")
+    .replace(/^(\s*)[*+]\s+/gm, "$1- ")
+    .replace(/^ {0,3}>\s?(.*)$/gm, (_match, line: string) =>
+      line.trim() ? `_${line.trim()}_` : ""
+    )
+    .replace(/~~([^~]+)~~/g, "$1");
+
+  return text.replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Split markdown into text and fenced code blocks
+ */
+function splitBlocks(markdown: string): RenderedBlock[] {
+  const blocks: RenderedBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let textLines: string[] = [];
+  let code: { fence: string; language?: string; lines: string[] } | null = null;
+
+  const flushText = () => {
+    const text = toTeamsMarkdown(textLines.join("\n"));
+    if (text) {
+      blocks.push({ kind: "text", text });
+    }
+    textLines = [];
+  };
+
+  for (const line of lines) {
+    if (code) {
+      if (line.trim().startsWith(code.fence)) {
+        blocks.push({
+          kind: "code",
+          text: code.lines.join("\n"),
+          language: code.language,
+        });
+        code = null;
+      } else {
+        code.lines.push(line);
+      }
+      continue;
+    }
+
+    const fence = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/.exec(line);
+    if (fence) {
+      flushText();
+      code = { fence: fence[1], language: fence[2] || undefined, lines: [] };
+    } else {
+      textLines.push(line);
+    }
+  }
+
+  // An unclosed fence runs to the end of the content
+  if (code) {
+    blocks.push({
+      kind: "code",
+      text: code.lines.join("\n"),
+      language: code.language,
+    });
+  }
+  flushText();
+
+  return blocks.filter((block) => block.kind === "text" || block.text.trim());
+}
+
+/**
+ * Cut text to at most `budget` characters at a paragraph, line, sentence or
+ * word boundary, never inside a link or inline code span
+ */
+function truncateText(text: string, budget: number): string {
+  let cut = budget;
+  for (const span of text.matchAll(/\[[^\]]*\]\([^)]*\)|`[^`\n]*`/g)) {
+    const start = span.index!;
+    if (start < cut && start + span[0].length > cut) {
+      cut = start;
+    }
+  }
+
+  const head = text.slice(0, cut);
+  const minimum = Math.floor(cut / 2);
+  const boundaries = [
+    head.lastIndexOf("\n\n"),
+    head.lastIndexOf("\n"),
+    Math.max(
+      head.lastIndexOf(". "),
+      head.lastIndexOf("! "),
+      head.lastIndexOf("? ")
+    ) + 1,
+    head.lastIndexOf(" "),
+  ];
+  const boundary = boundaries.find((index) => index >= minimum);
+
+  let result = head.slice(0, boundary ?? cut).trimEnd();
+  // Close bold markup left open by the cut
+  if ((result.match(/\*\*/g) || []).length % 2 === 1) {
+    result += "**";
+  }
+  return `${result}…`;
+}
+
+/**
+ * Render Answers markdown or HTML into Teams-friendly blocks, truncated to
+ * roughly `maxLength` characters with a "Read more" link
+ */
+export function renderForTeams(
+  source: string,
+  options: RenderOptions = {}
+): RenderedContent {
+  const markdown =
+    options.format === "html" ? htmlToMarkdown(source) : source || "";
+  const blocks = splitBlocks(markdown);
+  const maxLength = options.maxLength ?? Infinity;
+
+  const rendered: RenderedBlock[] = [];
+  let remaining = maxLength;
+  let truncated = false;
+
+  for (const block of blocks) {
+    if (block.text.length <= remaining) {
+      rendered.push(block);
+      remaining -= block.text.length;
+      continue;
+    }
+
+    truncated = true;
+    if (block.kind === "code") {
+      // Keep whole lines so the snippet stays readable
+      const lines: string[] = [];
+      let length = 0;
+      for (const line of block.text.split("\n")) {
+        if (length + line.length + 1 > remaining) {
+          break;
+        }
+        lines.push(line);
+        length += line.length + 1;
+      }
+      if (lines.length > 0) {
+        rendered.push({ ...block, text: `${lines.join("\n")}\n…` });
+      }
+    } else if (remaining > 20) {
+      rendered.push({
+        kind: "text",
+        text: truncateText(block.text, remaining),
+      });
+    }
+    break;
+  }
+
+  if (truncated && options.readMore) {
+    rendered.push({
+      kind: "text",
+      text: `[${options.readMore.text}](${options.readMore.url})`,
+    });
+  }
+
+  return { blocks: rendered, truncated };
+}
+
+/**
+ * Render content as a single markdown string, keeping code blocks fenced
+ */
+export function renderToText(
+  source: string,
+  options: RenderOptions = {}
+): string {
+  return renderForTeams(source, options)
+    .blocks.map((block) =>
+      block.kind === "code"
+        ? `\`\`\`${block.language || ""}\n${block.text}\n\`\`\``
+        : block.text
+    )
+    .join("\n\n");
+}
+
+/**
+ * Render content as a single card container, with code blocks shown in a
+ * monospace font
+ */
+export function renderToContainer(
+  source: string,
+  options: RenderOptions = {}
+): CardElement {
+  const items = renderForTeams(source, options).blocks.map((block) =>
+    block.kind === "code"
+      ? textBlock(block.text, { fontType: "monospace", size: "small" })
+      : textBlock(block.text)
+  );
+  return container(items.length > 0 ? items : [textBlock("")]);
+}